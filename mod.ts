@@ -1,87 +1,200 @@
-import { parseArgs } from "jsr:@std/cli/parse-args";
+import {
+  type Config,
+  ConfigError,
+  type ConfigKey,
+  DEFAULT_CONFIG,
+  formatConfig,
+  mergeConfig,
+  parseCommandLine,
+  readConfigFile,
+  readEnvironment,
+  RELOADABLE_KEYS,
+  watchConfigFile,
+} from "./src/config.ts";
 import { DavServer } from "./src/dav_server.ts";
 import { join } from "./src/deps.ts";
+import { handleShutdownSignals, shutdown } from "./src/shutdown.ts";
+import {
+  type Certificate,
+  getSelfSignedCertificate,
+  guardPlainHttp,
+  readCertificate,
+} from "./src/tls.ts";
+import { runUserCommand } from "./src/user_command.ts";
 
 if (import.meta.main) {
   main();
 }
 
 export async function main() {
-  // early parsing for the config option
-  const cliArgs = parseArgs(Deno.args, {
-    boolean: ["help", "no-auth-warning", "meta-touch", "debug"],
-    string: ["config", "path", "open-in-editor", "host", "port", "username", "password"],
-  });
+  if (Deno.args[0] === "user") {
+    Deno.exit(await runUserCommand(Deno.args.slice(1)));
+  }
 
-  if (cliArgs.help) {
-    printHelp();
-    return;
+  let commandLine;
+  let fileConfig;
+  try {
+    commandLine = parseCommandLine(Deno.args);
+    if (commandLine.help) {
+      printHelp();
+      return;
+    }
+    fileConfig = await readConfigFile(commandLine.config);
+  } catch (error) {
+    console.error(error instanceof ConfigError ? error.message : `${error}`);
+    Deno.exit(1);
   }
 
-  const config = cliArgs.config || "config.json";
-  const fileConfig = await readConfigFile(config);
-  const args = Object.assign({}, fileConfig, cliArgs);
+  const { config: configPath, options: cliOptions } = commandLine;
+  const environment = readEnvironment();
+  const resolveConfig = (file: Config) =>
+    mergeConfig([
+      ["default", DEFAULT_CONFIG],
+      ["config file", file],
+      ["environment", environment],
+      ["command line", cliOptions],
+    ]);
+  const resolved = resolveConfig(fileConfig);
+  const args = resolved.config;
 
-  args.username ??= Deno.env.get("TD_USERNAME");
-  args.password ??= Deno.env.get("TD_PASSWORD");
+  if (commandLine.printConfig) {
+    console.info(formatConfig(resolved));
+    return;
+  }
 
   if (!args.path) {
     console.error("path arguments missing");
     Deno.exit(1);
   }
 
-  const root = join(".", args.path as string);
+  const root = join(".", args.path);
   await Deno.mkdir(root, { recursive: true });
 
-  if (!args["no-auth-warning"] && (!args.username || !args.password)) {
+  if (!args["no-auth-warning"] && !args.users && (!args.username || !args.password)) {
     console.warn(
       "TamperDAV is running without any form of authentication. It's strongly recommended to configure username and password!",
     );
   }
 
-  const port = Number(args.port || 7000);
-  const server = Deno.serve(
-    {
-      hostname: (args.host as string) || "localhost",
-      port: port,
-      onError: (error) => {
-        console.error(error);
-        return new Response(`${error}`, { status: 500 });
-      },
-    },
-    new DavServer(root, args).logAndHandleRequest,
-  );
+  let certificate: Certificate | undefined;
+  try {
+    certificate = await getCertificate(args, root);
+  } catch (error) {
+    console.error(`Failed to load the certificate: ${error}`);
+    Deno.exit(1);
+  }
+
+  const port = args.port ?? 7000;
+  const hostname = args.host || "localhost";
+  const onError = (error: unknown) => {
+    console.error(error);
+    return new Response(`${error}`, { status: 500 });
+  };
+  let davServer: DavServer;
+  try {
+    davServer = new DavServer(root, args);
+  } catch (error) {
+    console.error(`Failed to start: ${error}`);
+    Deno.exit(1);
+  }
+  const handler = davServer.logAndHandleRequest;
+  const options = { hostname, port, onError };
+  const server = Deno.serve(certificate ? { ...options, ...certificate } : options, handler);
+  const listeners = [server];
+  console.info(`server is listening on ${port}${certificate ? " with HTTPS" : ""}`);
+
+  const httpPort = args["http-port"];
+  if (certificate && httpPort) {
+    const mode = args["plain-http"] ?? "redirect";
+    const hasCredentials = !!(args.users || args.username || args.password);
+    listeners.push(Deno.serve(
+      { hostname, port: httpPort, onError },
+      guardPlainHttp(handler, { mode, httpsPort: port, hasCredentials }),
+    ));
+    console.info(`plain HTTP is listening on ${httpPort}`);
+  }
+
+  const configWatcher = watchConfigFile(configPath, (config) => {
+    if (config instanceof Error) {
+      console.error(`${config.message}\nKeeping the previous config`);
+      return;
+    }
+
+    const next = resolveConfig(config).config;
+    const { username, password, users, debug, verbose } = next;
+    davServer.reconfigure({
+      username,
+      password,
+      users,
+      debug,
+      verbose,
+      "open-in-editor": next["open-in-editor"],
+    });
+    console.info(`${configPath} reloaded`);
+
+    const keys = new Set([...Object.keys(args), ...Object.keys(next)]) as Set<ConfigKey>;
+    const pending = [...keys].filter((key) =>
+      !(RELOADABLE_KEYS as readonly string[]).includes(key) &&
+      JSON.stringify(args[key]) !== JSON.stringify(next[key])
+    );
+    if (pending.length) {
+      console.warn(`Restart to apply the changes of ${pending.join(", ")}`);
+    }
+  });
+
+  handleShutdownSignals(async (signal) => {
+    console.info(`${signal} received, shutting down`);
+    configWatcher[Symbol.dispose]();
+    const graceSeconds = args["shutdown-timeout"] ?? 10;
+    const isClean = await shutdown(davServer, listeners, { graceSeconds });
+    if (!isClean) {
+      console.warn(`Requests were still open after ${graceSeconds}s`);
+    }
+    Deno.exit(isClean ? 0 : 1);
+  });
 
-  console.info(`server is listening on ${port}`);
   return server;
 }
 
-async function readConfigFile(config: string): Promise<Record<string, unknown>> {
-  try {
-    return JSON.parse(await Deno.readTextFile(config));
-  } catch (error) {
-    if (!(error instanceof Deno.errors.NotFound)) {
-      console.error(`${config}: ${error}`);
-      Deno.exit(1);
+async function getCertificate(args: Config, root: string) {
+  if (args.cert || args.key) {
+    if (!args.cert || !args.key) {
+      throw new Error("both --cert and --key are required");
     }
+    return await readCertificate(args.cert, args.key);
+  }
+  if (args["self-signed"]) {
+    return await getSelfSignedCertificate(root);
   }
-  return {};
 }
 
 function printHelp() {
   const { os } = Deno.build;
+  const command = os === "windows" ? "TamperDAV.bat" : "./tamperdav.sh";
   console.info(
-    `Usage: ${os === "windows" ? "TamperDAV.bat" : "./tamperdav.sh"} [options]
+    `Usage: ${command} [options]
+       ${command} user add|remove|passwd|list [name] [--users=path]
 Starts a WebDAV server for Tampermonkey to sync scripts with.
 
 Options:
         --help                     Shows this information
         --config=[path]            Uses the specified config file (default: config.json)
+        --print-config             Shows the effective options and where each comes from
         --no-auth-warning          Disables the warning regarding missing authentication due
                                    to missing username and password
         --meta-touch               Updates corresponding meta file upon changing a script
                                    file, resulting in connected browsers syncing these changes
         --debug                    Provides some more detailed output for debugging purposes
+        --verbose                  Includes headers and bodies in the output of "--debug"
+        --locking                  Enables WebDAV locks (LOCK and UNLOCK) for clients like
+                                   mounted network drives
+        --git                      Commits every change to a git repository in
+                                   [path]/.tamperdav/git, authored by the user who made it
+        --mirror=[path]            Keeps a copy of each script in this directory, named after
+                                   its @namespace and @name, and syncs edits both ways
+        --history=[count]          Keeps this many previous revisions of each file, which can be
+                                   listed and restored under /_history/<path>
+        --history-days=[days]      Drops revisions older than this (default: never)
         --open-in-editor=[editor]  The editor to use when pressing the cloud editor icon in
                                    Tampermonkey
         --open-in-editor           Same as above, but uses ${
@@ -89,10 +202,42 @@ Options:
     }
         --username=[username]      The username for clients to authenticate to the server with
         --password=[password]      The password for clients to authenticate to the server with
+        --per-user                 Gives each user a separate directory under [path]/users,
+                                   named after the user. Needs credentials
+        --users=[path]             Accepts the accounts of this file, which is managed with
+                                   the user command above
+        --cors-origins=[list]      Comma separated origins allowed to make cross-origin requests,
+                                   where * matches any extension ID (default: Tampermonkey)
+        --rate-limit=[count]       Requests per minute allowed from each address, answered with
+                                   429 beyond that, or 0 for no limit (default: 1200)
+        --rate-burst=[count]       Requests allowed at once from an idle address (default: 300)
+        --auth-failures=[count]    Wrong credentials allowed for a user from an address before
+                                   they're locked out (default: 5)
+        --lockout-seconds=[sec]    Length of the first lockout, doubled by each further failure
+                                   (default: 60)
+        --max-lockout-seconds=[sec]
+                                   The longest lockout (default: 3600)
+        --access-log=[path]        Appends a JSON line per request to this file
+        --access-log-max-bytes=[size]
+                                   Rotates the access log beyond this size (default: 10485760)
+        --access-log-files=[count] Rotated access logs to keep (default: 5)
         --host=[host]              The network address to bind on (default: localhost)
         --port=[port]              The port that the server will listen on (default: 7000)
+        --cert=[path]              Serves HTTPS with this PEM certificate chain
+        --key=[path]               The PEM private key of the certificate
+        --self-signed              Serves HTTPS with a certificate for localhost, generated by
+                                   openssl into [path]/.tamperdav/tls on first use
+        --http-port=[port]         Also listens for plain HTTP on this port along with HTTPS
+        --plain-http=[mode]        What plain HTTP does if credentials are configured: redirect
+                                   to HTTPS (default) or refuse
+        --shutdown-timeout=[sec]   How long to wait for open requests and pending writes on
+                                   SIGINT or SIGTERM before exiting (default: 10)
         --path=[path]              The path, relativePath to server.js, that will serve as storage
 
+Synced scripts can be browsed at http://[host]:[port]/_dashboard.
+The whole library can be downloaded from /_export as a zip, and uploaded to /_import by POST.
+Prometheus metrics are served at /_metrics.
+
 All of these options except "--help" can be specified in a JSON formatted file config.json
 in the same directory as server.js. An example is:
 {
@@ -103,8 +248,20 @@ in the same directory as server.js. An example is:
     "port": 1234
 }
 
+Users can also be given other directories under [path] by "workspaces" in the config file,
+which also isolates users like "--per-user". A workspace can be shared read-only:
+{
+    "workspaces": {
+        "alice": "team",
+        "bob": { "path": "team", "read-only": true }
+    }
+}
+
 Options provided as command line parameters all have precedence over options stored in the
-config file.
+config file. Unknown options and values of wrong types are reported at startup.
+
+The config file is watched while the server runs. Changes to "username", "password", "users",
+"debug", "verbose" and "open-in-editor" apply right away, and others after a restart.
 
 Username and password can also be specified in the environment variables TD_USERNAME and
 TD_PASSWORD respectively. These have priority over over the config file, but not over the
@@ -0,0 +1,36 @@
+import { join } from "jsr:@std/path";
+import { assertEquals } from "../tool/deps.ts";
+import { AccessLog, type AccessLogEntry } from "./access_log.ts";
+
+Deno.test("Given an access log keeping one old file", async (test) => {
+  const directory = await Deno.makeTempDir();
+  const path = join(directory, "access.log");
+  const log = new AccessLog(path, { maxBytes: 100, maxFiles: 1 });
+  const entry = (status: number): AccessLogEntry => ({
+    time: "2024-01-01T00:00:00.000Z",
+    address: "127.0.0.1",
+    user: "alice",
+    method: "GET",
+    path: "/a.user.js",
+    status,
+    duration: 1,
+    bytes: 0,
+  });
+
+  await test.step("when lines outgrow the size limit", async (test) => {
+    for (const status of [200, 404, 500]) {
+      log.write(entry(status));
+    }
+    await log.settle();
+
+    await test.step("should rotate the file and drop the oldest", async () => {
+      const read = async (path: string) =>
+        (await Deno.readTextFile(path)).trim().split("\n").map((x) => JSON.parse(x).status);
+      assertEquals(await read(path), [500]);
+      assertEquals(await read(`${path}.1`), [404]);
+      assertEquals(await Deno.stat(`${path}.2`).then(() => true, () => false), false);
+    });
+  });
+
+  await Deno.remove(directory, { recursive: true });
+});
@@ -0,0 +1,74 @@
+/** A line of the access log. */
+export type AccessLogEntry = {
+  /** ISO date of the request. */
+  time: string;
+  address: string;
+  user: string;
+  method: string;
+  path: string;
+  status: number;
+  /** Milliseconds until the response body is sent. */
+  duration: number;
+  /** Bytes of the response body. */
+  bytes: number;
+};
+
+/**
+ * Appends JSON lines to a file, which is renamed to `<path>.1` once it grows over `maxBytes`,
+ * shifting older ones up to `<path>.<maxFiles>`.
+ */
+export class AccessLog {
+  readonly #path: string;
+  readonly #maxBytes: number;
+  readonly #maxFiles: number;
+  #size?: number;
+  /** Serializes writes. */
+  #writing = Promise.resolve();
+
+  constructor(path: string, { maxBytes, maxFiles }: { maxBytes: number; maxFiles: number }) {
+    this.#path = path;
+    this.#maxBytes = maxBytes;
+    this.#maxFiles = maxFiles;
+  }
+
+  write(entry: AccessLogEntry): Promise<void> {
+    const line = new TextEncoder().encode(`${JSON.stringify(entry)}\n`);
+    this.#writing = this.#writing.then(() => this.#append(line)).catch((error) => {
+      console.error(`access log: ${error}`);
+    });
+    return this.#writing;
+  }
+
+  /** Resolves after the lines written so far are appended. */
+  async settle(): Promise<void> {
+    await this.#writing;
+  }
+
+  async #append(line: Uint8Array) {
+    this.#size ??= await Deno.stat(this.#path).then((x) => x.size, () => 0);
+    if (this.#size > 0 && this.#size + line.length > this.#maxBytes) {
+      await this.#rotate();
+    }
+
+    await Deno.writeFile(this.#path, line, { append: true });
+    this.#size += line.length;
+  }
+
+  async #rotate() {
+    if (this.#maxFiles <= 0) {
+      await Deno.remove(this.#path);
+    }
+    // Shifts from the oldest, which is overwritten by the one before it.
+    for (let index = this.#maxFiles - 1; index >= 0; index--) {
+      const from = index ? `${this.#path}.${index}` : this.#path;
+      await Deno.rename(from, `${this.#path}.${index + 1}`).catch(ignoreNotFound);
+    }
+    this.#size = 0;
+  }
+}
+
+function ignoreNotFound(error: unknown) {
+  if (!(error instanceof Deno.errors.NotFound)) {
+    throw error;
+  }
+}
@@ -1,44 +1,279 @@
-import { zip } from "jsr:@std/collections/zip";
-import { toFileUrl } from "jsr:@std/path/to-file-url";
+import { contentType } from "jsr:@std/media-types/content-type";
+import { basename, extname, relative } from "jsr:@std/path";
+import { getEtag } from "./dav_server/conditions.ts";
+import type { Lock, LockManager } from "./dav_server/locks.ts";
+import type { DeadProperty, PropertyStore } from "./dav_server/property_store.ts";
+import type { Storage, StorageStat } from "./storage.ts";
+import { DAV_NAMESPACE, parseXml, type XmlElement } from "./xml.ts";
+import {
+  element,
+  elementWithAttributes,
+  encodeHref,
+  type Markup,
+  raw,
+  type XmlContent,
+  xmlDocument,
+} from "./xml_builder.ts";
+
+const TAMPERMONKEY_NAMESPACE = "http://dav.tampermonkey.net/ns";
+
+export type PropertyName = { namespace: string; name: string };
+
+/** Which properties a PROPFIND asked for. */
+export type PropertySelection =
+  | { type: "allprop" }
+  | { type: "propname" }
+  | { type: "prop"; properties: PropertyName[] };
+
+type PropertyContext = {
+  root: string;
+  path: string;
+  stat: StorageStat | null;
+  /** Only computed if requested, as it hashes the content. */
+  etag?: string;
+  locks?: LockManager;
+};
+
+/** Returns the content of a property, or undefined if the resource doesn't have it. */
+type LiveProperty = (context: PropertyContext) => XmlContent | undefined;
+
+const liveProperties: Record<string, LiveProperty> = {
+  getlastmodified: ({ stat }) => new Date(stat?.mtime || Date.now()).toISOString(),
+  resourcetype: ({ stat }) => stat?.isDirectory ? element("d:collection") : "",
+  getcontentlength: ({ stat }) => stat?.isDirectory ? "" : `${stat?.size ?? -1}`,
+  getetag: ({ stat, etag }) => stat && !stat.isDirectory ? etag : undefined,
+  displayname: ({ root, path }) => path === root ? "" : basename(path),
+  creationdate: ({ stat }) => {
+    const date = stat?.birthtime ?? stat?.mtime;
+    return date ? date.toISOString() : undefined;
+  },
+  getcontenttype: ({ path, stat }) => {
+    if (!stat || stat.isDirectory) {
+      return;
+    }
+    return contentType(extname(path)) ?? "application/octet-stream";
+  },
+  supportedlock: ({ locks }) => {
+    if (!locks) {
+      return;
+    }
+    return ["exclusive", "shared"].map((scope) =>
+      element(
+        "d:lockentry",
+        element("d:lockscope", element(`d:${scope}`)),
+        element("d:locktype", element("d:write")),
+      )
+    );
+  },
+  lockdiscovery: ({ root, path, locks }) =>
+    locks?.getLocks(path).map((x) => buildActiveLockXml(root, x)),
+};
 
 export async function arrayToXml(
-  { root, files, cursor }: {
+  { root, storage, files, cursor, locks, properties, selection = { type: "allprop" } }: {
     root: string;
+    storage: Storage;
     files: string[];
     cursor?: number;
+    /** Adds lock properties if given. */
+    locks?: LockManager;
+    /** Adds dead properties if given. */
+    properties?: PropertyStore;
+    selection?: PropertySelection;
   },
 ) {
-  const stats = await Promise.all(files.map((file) => Deno.stat(file).catch(() => null)));
-  const rootUrl = `${toFileUrl(root)}`;
-  const relatives = files.map((file) => {
-    return `${toFileUrl(file)}`.slice(rootUrl.length) || "/";
+  const wantsEtag = selection.type === "allprop" ||
+    (selection.type === "prop" &&
+      selection.properties.some((x) => x.namespace === DAV_NAMESPACE && x.name === "getetag"));
+  const responses = await Promise.all(files.map(async (path) => {
+    const [stat, deadProperties] = await Promise.all([
+      storage.stat(path).catch(() => null),
+      properties?.get(path) ?? [],
+    ]);
+    const etag = wantsEtag && stat?.isFile
+      ? await getEtag(storage, path, stat).catch(() => undefined)
+      : undefined;
+    return buildItemXml({ root, path, stat, etag, locks }, deadProperties, selection);
+  }));
+
+  return xmlDocument(
+    elementWithAttributes(
+      "d:multistatus",
+      { "xmlns:d": DAV_NAMESPACE, "xmlns:td": TAMPERMONKEY_NAMESPACE },
+      responses,
+      !!cursor && element("td:cursor", cursor),
+    ),
+  );
+}
+
+/**
+ * Reads a PROPFIND request body. An empty body means allprop.
+ * @throws {XmlSyntaxError} if the body is not well-formed.
+ * @returns undefined if the body is well-formed but not a valid PROPFIND.
+ */
+export function parsePropFind(body: string): PropertySelection | undefined {
+  if (!body.trim()) {
+    return { type: "allprop" };
+  }
+
+  const propfind = parseXml(body);
+  if (!isDav(propfind, "propfind")) {
+    return;
+  }
+
+  for (const child of propfind.children) {
+    if (isDav(child, "allprop")) {
+      return { type: "allprop" };
+    }
+    if (isDav(child, "propname")) {
+      return { type: "propname" };
+    }
+    if (isDav(child, "prop")) {
+      const properties = child.children.map(({ namespace, name }) => ({ namespace, name }));
+      return { type: "prop", properties };
+    }
+  }
+}
+
+/** Whether the property is computed by the server and can't be changed by PROPPATCH. */
+export function isLiveProperty({ namespace, name }: PropertyName) {
+  return namespace === DAV_NAMESPACE && Object.hasOwn(liveProperties, name);
+}
+
+/** Builds a multistatus reporting the result of each PROPPATCH instruction. */
+export function buildPropPatchXml(
+  root: string,
+  path: string,
+  results: { property: PropertyName; status: string }[],
+) {
+  const statuses = [...new Set(results.map((x) => x.status))];
+  const propstats = statuses.map((status) => {
+    const properties = results.filter((x) => x.status === status).map((x) => x.property);
+    return buildPropStatXml(properties.map((x) => buildPropertyXml(x)), status);
   });
-  const xmls = zip(relatives, stats).map(([relative, stat]) => buildItemXml(relative, stat));
-
-  const new_cursor = cursor ? `<td:cursor>${cursor}</td:cursor>` : "";
-  return `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:td="http://dav.tampermonkey.net/ns">${
-    xmls.join("\n")
-  }${new_cursor}</d:multistatus>`;
-}
-
-function buildItemXml(subPath: string, stat: Deno.FileInfo | null) {
-  const mtime = new Date(stat?.mtime || Date.now());
-  const size = stat?.size ?? -1;
-  const lastModified = mtime.toISOString();
-  const isDirectory = stat?.isDirectory ?? false;
-
-  return [
-    "<d:response>",
-    `<d:href>${subPath}</d:href>`,
-    "<d:propstat>",
-    "<d:prop>",
-    `<d:getlastmodified>${lastModified}</d:getlastmodified>`,
-    isDirectory ? "<d:resourcetype><d:collection/></d:resourcetype>" : "<d:resourcetype />",
-    !isDirectory ? `<d:getcontentlength>${size}</d:getcontentlength>` : "<d:getcontentlength />",
-    "</d:prop>",
-    "<d:status>HTTP/1.1 200 OK</d:status>",
-    "</d:propstat>",
-    "</d:response>",
-  ]
-    .join("\n");
+
+  return xmlDocument(
+    elementWithAttributes(
+      "d:multistatus",
+      { "xmlns:d": DAV_NAMESPACE },
+      element("d:response", element("d:href", toHref(root, path)), propstats),
+    ),
+  );
+}
+
+/** Builds the Tampermonkey flavored error body. */
+export function buildExceptionXml(exception: string, message: string) {
+  return xmlDocument(
+    elementWithAttributes(
+      "d:error",
+      { "xmlns:d": DAV_NAMESPACE, "xmlns:td": TAMPERMONKEY_NAMESPACE },
+      element("td:exception", exception),
+      element("td:message", message),
+    ),
+  );
+}
+
+/** Builds an error body with a precondition or postcondition code of RFC 4918 section 16. */
+export function buildConditionXml(condition: string, ...content: XmlContent[]) {
+  return xmlDocument(
+    elementWithAttributes(
+      "d:error",
+      { "xmlns:d": DAV_NAMESPACE },
+      element(`d:${condition}`, ...content),
+    ),
+  );
+}
+
+/** Builds the body of a successful LOCK. */
+export function buildLockResponseXml(root: string, lock: Lock) {
+  return xmlDocument(
+    elementWithAttributes(
+      "d:prop",
+      { "xmlns:d": DAV_NAMESPACE },
+      element("d:lockdiscovery", buildActiveLockXml(root, lock)),
+    ),
+  );
+}
+
+/** Percent-encoded absolute URL path of `path` relative to `root`. */
+export function toHref(root: string, path: string) {
+  return encodeHref(`/${relative(root, path).replace(/\\/g, "/")}`);
+}
+
+function buildActiveLockXml(root: string, lock: Lock) {
+  const remainingSeconds = Math.max(0, Math.ceil((lock.expiresAt - Date.now()) / 1000));
+  return element(
+    "d:activelock",
+    element("d:locktype", element("d:write")),
+    element("d:lockscope", element(`d:${lock.scope}`)),
+    element("d:depth", lock.depth),
+    lock.owner !== undefined && element("d:owner", raw(lock.owner)),
+    element("d:timeout", `Second-${remainingSeconds}`),
+    element("d:locktoken", element("d:href", lock.token)),
+    element("d:lockroot", element("d:href", toHref(root, lock.path))),
+  );
+}
+
+function buildItemXml(
+  context: PropertyContext,
+  deadProperties: DeadProperty[],
+  selection: PropertySelection,
+) {
+  const found: Markup[] = [];
+  const missing: Markup[] = [];
+
+  if (selection.type === "prop") {
+    for (const property of selection.properties) {
+      const value = isLiveProperty(property)
+        ? liveProperties[property.name](context)
+        : findDeadValue(deadProperties, property);
+      if (value === undefined) {
+        missing.push(buildPropertyXml(property));
+      } else {
+        found.push(buildPropertyXml(property, value));
+      }
+    }
+  } else {
+    for (const [name, getValue] of Object.entries(liveProperties)) {
+      const value = getValue(context);
+      if (value === undefined) {
+        continue;
+      }
+      const property = { namespace: DAV_NAMESPACE, name };
+      found.push(buildPropertyXml(property, selection.type === "allprop" && value));
+    }
+    for (const property of deadProperties) {
+      found.push(buildPropertyXml(property, selection.type === "allprop" && raw(property.value)));
+    }
+  }
+
+  return element(
+    "d:response",
+    element("d:href", toHref(context.root, context.path)),
+    found.length > 0 && buildPropStatXml(found, "200 OK"),
+    missing.length > 0 && buildPropStatXml(missing, "404 Not Found"),
+  );
+}
+
+function findDeadValue(deadProperties: DeadProperty[], { namespace, name }: PropertyName) {
+  const property = deadProperties.find((x) => x.namespace === namespace && x.name === name);
+  return property && raw(property.value);
+}
+
+function buildPropStatXml(properties: Markup[], status: string) {
+  return element(
+    "d:propstat",
+    element("d:prop", properties),
+    element("d:status", `HTTP/1.1 ${status}`),
+  );
+}
+
+function buildPropertyXml({ namespace, name }: PropertyName, value?: XmlContent) {
+  return namespace === DAV_NAMESPACE
+    ? element(`d:${name}`, value)
+    : elementWithAttributes(name, { xmlns: namespace }, value);
+}
+
+function isDav(node: XmlElement, name: string) {
+  return node.namespace === DAV_NAMESPACE && node.name === name;
 }
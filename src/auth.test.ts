@@ -0,0 +1,51 @@
+import { join } from "jsr:@std/path";
+import { assertEquals } from "../tool/deps.ts";
+import { parseBasicCredentials, UserStore } from "./auth.ts";
+
+Deno.test("Given Basic credentials with a colon in the password", async (test) => {
+  const authorization = `Basic ${btoa("alice:pass:word")}`;
+
+  await test.step("when parse", async (test) => {
+    const credentials = parseBasicCredentials(authorization);
+
+    await test.step("should split at the first colon", () => {
+      assertEquals(credentials, { user: "alice", password: "pass:word" });
+    });
+  });
+});
+
+Deno.test("Given a users file", async (test) => {
+  const directory = await Deno.makeTempDir();
+  const store = new UserStore(join(directory, "users.json"));
+  await store.setPassword("alice", "secret");
+
+  await test.step("when verify the right password", async (test) => {
+    const isValid = await store.verify({ user: "alice", password: "secret" });
+
+    await test.step("should accept it", () => {
+      assertEquals(isValid, true);
+    });
+  });
+
+  await test.step("when verify a wrong password or an unknown user", async (test) => {
+    const results = await Promise.all([
+      store.verify({ user: "alice", password: "Secret" }),
+      store.verify({ user: "bob", password: "secret" }),
+    ]);
+
+    await test.step("should reject them", () => {
+      assertEquals(results, [false, false]);
+    });
+  });
+
+  await test.step("when another process removes the user", async (test) => {
+    await new UserStore(join(directory, "users.json")).remove("alice");
+    const isValid = await store.verify({ user: "alice", password: "secret" });
+
+    await test.step("should reject the user", () => {
+      assertEquals(isValid, false);
+    });
+  });
+
+  await Deno.remove(directory, { recursive: true });
+});
@@ -0,0 +1,164 @@
+import { timingSafeEqual } from "jsr:@std/crypto/timing-safe-equal";
+import { decodeBase64, encodeBase64 } from "jsr:@std/encoding/base64";
+
+/** User name and password of the Basic authentication scheme. */
+export type Credentials = { user: string; password: string };
+
+/** A salted PBKDF2 hash as stored in the users file, with base64 `salt` and `hash`. */
+export type PasswordHash = {
+  algorithm: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string;
+  hash: string;
+};
+
+/** OWASP recommendation for PBKDF2-HMAC-SHA256 as of 2023. */
+const ITERATIONS = 600_000;
+
+/** Decodes `Authorization: Basic ...`, where the password may contain colons. */
+export function parseBasicCredentials(authorization: string | null): Credentials | undefined {
+  const token = authorization?.match(/^Basic\s+(\S+)\s*$/i)?.[1];
+  if (!token) {
+    return;
+  }
+
+  let decoded: string;
+  try {
+    decoded = new TextDecoder("utf-8", { fatal: true }).decode(decodeBase64(token));
+  } catch {
+    return;
+  }
+
+  const separator = decoded.indexOf(":");
+  if (separator < 0) {
+    return;
+  }
+  return { user: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, ITERATIONS);
+  return {
+    algorithm: "PBKDF2-SHA256",
+    iterations: ITERATIONS,
+    salt: encodeBase64(salt),
+    hash: encodeBase64(hash),
+  };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const expected = decodeBase64(stored.hash);
+  const actual = await derive(password, decodeBase64(stored.salt), stored.iterations);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Compares texts in time independent of where they differ, as the digests have a fixed length. */
+export async function isSameText(a: string, b: string): Promise<boolean> {
+  const [digestA, digestB] = await Promise.all([a, b].map(digest));
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Accounts in a JSON file mapping user names to {@link PasswordHash}es.
+ *
+ * The file is read again when it changes, so that accounts can be managed while the server runs.
+ * As hashing is slow on purpose, passwords which passed once are remembered by their digest.
+ * Any other password is hashed in full, so that guesses stay slow.
+ */
+export class UserStore {
+  readonly #path: string;
+  #users: Record<string, PasswordHash> = {};
+  #mtime?: number;
+  #verified = new Map<string, Uint8Array>();
+  #dummy?: Promise<PasswordHash>;
+
+  constructor(path: string) {
+    this.#path = path;
+  }
+
+  async verify({ user, password }: Credentials): Promise<boolean> {
+    await this.#reload();
+
+    const stored = Object.hasOwn(this.#users, user) ? this.#users[user] : undefined;
+    const remembered = this.#verified.get(user);
+    if (stored && remembered && timingSafeEqual(await digest(password), remembered)) {
+      return true;
+    }
+
+    // Hash even for unknown users so that the timing doesn't reveal which ones exist.
+    this.#dummy ??= hashPassword("");
+    const isValid = await verifyPassword(password, stored ?? await this.#dummy);
+    if (stored && isValid) {
+      this.#verified.set(user, await digest(password));
+    }
+    return !!stored && isValid;
+  }
+
+  async list(): Promise<string[]> {
+    await this.#reload();
+    return Object.keys(this.#users).sort();
+  }
+
+  async setPassword(user: string, password: string): Promise<void> {
+    await this.#reload();
+    this.#users[user] = await hashPassword(password);
+    await this.#save();
+  }
+
+  /** @returns whether the user existed. */
+  async remove(user: string): Promise<boolean> {
+    await this.#reload();
+    if (!Object.hasOwn(this.#users, user)) {
+      return false;
+    }
+    delete this.#users[user];
+    await this.#save();
+    return true;
+  }
+
+  async #reload() {
+    let mtime: number | undefined;
+    try {
+      mtime = (await Deno.stat(this.#path)).mtime?.getTime() ?? Date.now();
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+    if (mtime === this.#mtime) {
+      return;
+    }
+
+    this.#users = mtime === undefined ? {} : JSON.parse(await Deno.readTextFile(this.#path));
+    this.#mtime = mtime;
+    this.#verified.clear();
+  }
+
+  async #save() {
+    const json = `${JSON.stringify(this.#users, null, 2)}\n`;
+    await Deno.writeTextFile(this.#path, json, { mode: 0o600 });
+    this.#mtime = (await Deno.stat(this.#path)).mtime?.getTime();
+    this.#verified.clear();
+  }
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+async function digest(text: string) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+}
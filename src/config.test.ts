@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertThrows } from "../tool/deps.ts";
+import {
+  ConfigError,
+  mergeConfig,
+  parseCommandLine,
+  readConfigFile,
+  validateConfig,
+} from "./config.ts";
+
+Deno.test("Given a config file", async (test) => {
+  await test.step("when it has a key in camel case", async (test) => {
+    const validate = () => validateConfig({ path: "dav", metaTouch: true }, "config.json");
+
+    await test.step("should suggest the kebab case option", () => {
+      assertThrows(
+        validate,
+        ConfigError,
+        'config.json: unknown option "metaTouch", did you mean "meta-touch"?',
+      );
+    });
+  });
+
+  await test.step("when values have wrong types", async (test) => {
+    const validate = () => validateConfig({ port: "7000", "plain-http": "drop" }, "config.json");
+
+    await test.step("should report each of them", () => {
+      const error = assertThrows(validate, ConfigError);
+      assertEquals(error.message.split("\n"), [
+        'config.json: "port" must be a non-negative number, but is "7000"',
+        'config.json: "plain-http" must be "redirect" or "refuse", but is "drop"',
+      ]);
+    });
+  });
+});
+
+Deno.test("Given a missing config file", async (test) => {
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/config.json`;
+
+  await test.step("when read at startup", async (test) => {
+    const config = await readConfigFile(path);
+
+    await test.step("should have no options", () => {
+      assertEquals(config, {});
+    });
+  });
+
+  await test.step("when read while watching", async (test) => {
+    await test.step("should be an error, so that the previous options are kept", async () => {
+      await assertRejects(() => readConfigFile(path, { required: true }), ConfigError);
+    });
+  });
+
+  await Deno.remove(directory);
+});
+
+Deno.test("Given command line arguments", async (test) => {
+  await test.step("when some options are given", async (test) => {
+    const { options, config } = parseCommandLine(["--port=8080", "--debug", "--open-in-editor"]);
+
+    await test.step("should convert them and leave out the others", () => {
+      assertEquals(options, { port: 8080, debug: true, "open-in-editor": true });
+      assertEquals(config, "config.json");
+    });
+  });
+
+  await test.step("when an option is mistyped", async (test) => {
+    const parse = () => parseCommandLine(["--meta-touh"]);
+
+    await test.step("should suggest the option", () => {
+      assertThrows(
+        parse,
+        ConfigError,
+        'command line: unknown option --meta-touh, did you mean "meta-touch"?',
+      );
+    });
+  });
+
+  await test.step("when merged over a config file", async (test) => {
+    const { config, sources } = mergeConfig([
+      ["default", { port: 7000 }],
+      ["config file", { port: 1234, "meta-touch": true }],
+      ["command line", parseCommandLine(["--port=8080"]).options],
+    ]);
+
+    await test.step("should keep where each option came from", () => {
+      assertEquals(config, { port: 8080, "meta-touch": true });
+      assertEquals(sources.get("port"), "command line");
+      assertEquals(sources.get("meta-touch"), "config file");
+    });
+  });
+});
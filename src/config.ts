@@ -0,0 +1,362 @@
+import { parseArgs } from "jsr:@std/cli/parse-args";
+import { debounce } from "jsr:@std/async/debounce";
+import { levenshteinDistance } from "jsr:@std/text/levenshtein-distance";
+import { resolve } from "./deps.ts";
+import type { WorkspaceMapping } from "./workspace.ts";
+
+/** Value types of options, checked the same way for the command line and the config file. */
+const CONFIG_SCHEMA = {
+  path: "string",
+  host: "string",
+  port: "number",
+  "no-auth-warning": "boolean",
+  "meta-touch": "boolean",
+  debug: "boolean",
+  verbose: "boolean",
+  locking: "boolean",
+  git: "boolean",
+  mirror: "string",
+  history: "number",
+  "history-days": "number",
+  "open-in-editor": "editor",
+  username: "string",
+  password: "string",
+  users: "string",
+  "per-user": "boolean",
+  workspaces: "workspaces",
+  "cors-origins": "origins",
+  "rate-limit": "number",
+  "rate-burst": "number",
+  "auth-failures": "number",
+  "lockout-seconds": "number",
+  "max-lockout-seconds": "number",
+  "access-log": "string",
+  "access-log-max-bytes": "number",
+  "access-log-files": "number",
+  cert: "string",
+  key: "string",
+  "self-signed": "boolean",
+  "http-port": "number",
+  "plain-http": "plain-http",
+  "shutdown-timeout": "number",
+} as const;
+
+type ValueTypes = {
+  boolean: boolean;
+  string: string;
+  number: number;
+  /** A command, or `true` for the default one. */
+  editor: string | boolean;
+  /** Comma separated, or a list. */
+  origins: string | string[];
+  "plain-http": "redirect" | "refuse";
+  workspaces: Record<string, WorkspaceMapping>;
+};
+
+type Schema = typeof CONFIG_SCHEMA;
+
+export type ConfigKey = keyof Schema;
+
+export type Config = { [K in ConfigKey]?: ValueTypes[Schema[K]] };
+
+/** Where the effective value of an option came from, by priority. */
+export type ConfigSource = "default" | "config file" | "environment" | "command line";
+
+/** Options which take effect on reload, without restarting the listener. */
+export const RELOADABLE_KEYS = [
+  "username",
+  "password",
+  "users",
+  "debug",
+  "verbose",
+  "open-in-editor",
+] as const satisfies ConfigKey[];
+
+export const DEFAULT_CONFIG: Config = {
+  host: "localhost",
+  port: 7000,
+  "rate-limit": 1200,
+  "rate-burst": 300,
+  "auth-failures": 5,
+  "lockout-seconds": 60,
+  "max-lockout-seconds": 3600,
+  "access-log-max-bytes": 10 * 1024 * 1024,
+  "access-log-files": 5,
+  "plain-http": "redirect",
+  "shutdown-timeout": 10,
+};
+
+/** Options only the command line takes. */
+const COMMAND_LINE_ONLY = ["help", "config", "print-config"];
+
+const DESCRIPTIONS: Record<Schema[ConfigKey], string> = {
+  boolean: "true or false",
+  string: "a string",
+  number: "a non-negative number",
+  editor: "a command or true",
+  origins: "a string or a list of strings",
+  "plain-http": '"redirect" or "refuse"',
+  workspaces: 'an object of user names to paths or { "path", "read-only" }',
+};
+
+/** Invalid options, with a line per problem. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export type CommandLine = {
+  help: boolean;
+  printConfig: boolean;
+  /** Path of the config file. */
+  config: string;
+  options: Config;
+};
+
+/**
+ * Parses the options given on the command line, leaving out the ones which weren't.
+ * @throws {ConfigError} on unknown options or wrong values
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+  const keys = Object.keys(CONFIG_SCHEMA) as ConfigKey[];
+  const booleans = keys.filter((key) => CONFIG_SCHEMA[key] === "boolean");
+  const unknown: string[] = [];
+  const parsed: Record<string, unknown> = parseArgs(args, {
+    boolean: [...booleans, "help", "print-config"],
+    string: [...keys.filter((key) => !booleans.includes(key)), "config"],
+    unknown: (arg) => {
+      if (arg.startsWith("-")) {
+        unknown.push(arg.replace(/=.*/, ""));
+      }
+      return false;
+    },
+  });
+  if (unknown.length) {
+    throw new ConfigError(
+      unknown.map((arg) => `command line: unknown option ${arg}${suggest(arg)}`).join("\n"),
+    );
+  }
+
+  // Booleans default to false, which must not override the config file.
+  const given = new Set(
+    args.map((arg) => arg.match(/^--([^=]+)/)?.[1]).filter((x) => x !== undefined),
+  );
+  const options: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = parsed[key];
+    if (!given.has(key) || value === undefined) {
+      continue;
+    }
+    options[key] = fromCommandLine(CONFIG_SCHEMA[key], value);
+  }
+
+  return {
+    help: parsed.help === true,
+    printConfig: parsed["print-config"] === true,
+    config: (parsed.config as string | undefined) || "config.json",
+    options: validateConfig(options, "command line"),
+  };
+}
+
+/** Converts the strings of the command line to the types the config file would have. */
+function fromCommandLine(kind: Schema[ConfigKey], value: unknown) {
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (kind === "number" && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  // `--open-in-editor` alone picks the default editor.
+  if (kind === "editor" && value === "") {
+    return true;
+  }
+  return value;
+}
+
+/**
+ * Checks the options of a config file.
+ * @param origin names the file in error messages
+ * @throws {ConfigError} listing every unknown key and wrong value
+ */
+export function validateConfig(value: unknown, origin: string): Config {
+  if (!isRecord(value)) {
+    throw new ConfigError(`${origin}: must be a JSON object`);
+  }
+
+  const errors = [];
+  for (const [key, option] of Object.entries(value)) {
+    if (COMMAND_LINE_ONLY.includes(key)) {
+      errors.push(`${origin}: "${key}" can only be given on the command line`);
+    } else if (!(key in CONFIG_SCHEMA)) {
+      errors.push(`${origin}: unknown option "${key}"${suggest(key)}`);
+    } else if (!isOfKind(CONFIG_SCHEMA[key as ConfigKey], option)) {
+      const kind = CONFIG_SCHEMA[key as ConfigKey];
+      errors.push(
+        `${origin}: "${key}" must be ${DESCRIPTIONS[kind]}, but is ${JSON.stringify(option)}`,
+      );
+    }
+  }
+  if (errors.length) {
+    throw new ConfigError(errors.join("\n"));
+  }
+  return value as Config;
+}
+
+function isOfKind(kind: Schema[ConfigKey], value: unknown): boolean {
+  switch (kind) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) && value >= 0;
+    case "editor":
+      return typeof value === "string" || typeof value === "boolean";
+    case "origins":
+      return typeof value === "string" ||
+        (Array.isArray(value) && value.every((x) => typeof x === "string"));
+    case "plain-http":
+      return value === "redirect" || value === "refuse";
+    case "workspaces":
+      return isRecord(value) && Object.values(value).every(isWorkspaceMapping);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isWorkspaceMapping(value: unknown): value is WorkspaceMapping {
+  return typeof value === "string" ||
+    (isRecord(value) && typeof value.path === "string" &&
+      ["undefined", "boolean"].includes(typeof value["read-only"]));
+}
+
+/** Points out the option a typo like `metaTouch` or `--meta-touh` likely meant. */
+function suggest(name: string): string {
+  const normalize = (x: string) => x.replace(/^-+/, "").replace(/[^a-z0-9]/gi, "").toLowerCase();
+  const normalized = normalize(name);
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const key of Object.keys(CONFIG_SCHEMA)) {
+    const distance = levenshteinDistance(normalized, normalize(key));
+    if (distance < bestDistance) {
+      best = key;
+      bestDistance = distance;
+    }
+  }
+  return best ? `, did you mean "${best}"?` : "";
+}
+
+/**
+ * Reads and checks a config file, which may not exist unless `required`.
+ * @throws {ConfigError} if it isn't valid JSON, has wrong options, or is required but missing
+ */
+export async function readConfigFile(
+  path: string,
+  { required = false }: { required?: boolean } = {},
+): Promise<Config> {
+  let text;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+    if (required) {
+      throw new ConfigError(`${path}: not found`);
+    }
+    return {};
+  }
+
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateConfig(json, path);
+}
+
+/** The `TD_USERNAME` and `TD_PASSWORD` variables. */
+export function readEnvironment(): Config {
+  const config: Config = {};
+  const username = Deno.env.get("TD_USERNAME");
+  const password = Deno.env.get("TD_PASSWORD");
+  if (username !== undefined) {
+    config.username = username;
+  }
+  if (password !== undefined) {
+    config.password = password;
+  }
+  return config;
+}
+
+export type ResolvedConfig = {
+  config: Config;
+  sources: Map<ConfigKey, ConfigSource>;
+};
+
+/** Overlays options from the lowest priority to the highest, remembering where each came from. */
+export function mergeConfig(layers: [ConfigSource, Config][]): ResolvedConfig {
+  const config: Record<string, unknown> = {};
+  const sources = new Map<ConfigKey, ConfigSource>();
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        config[key] = value;
+        sources.set(key as ConfigKey, source);
+      }
+    }
+  }
+  return { config: config as Config, sources };
+}
+
+/** One line per option, with secrets masked. */
+export function formatConfig({ config, sources }: ResolvedConfig): string {
+  const lines = [...sources].map(([key, source]) => {
+    const value = key === "password" ? '"********"' : JSON.stringify(config[key]);
+    return [`${key} = ${value}`, source] as const;
+  });
+  const width = Math.max(0, ...lines.map(([option]) => option.length));
+  return lines.map(([option, source]) => `${option.padEnd(width)}  # ${source}`).join("\n");
+}
+
+/**
+ * Calls `onChange` with the options of a config file each time it's saved, or with the error if
+ * it became invalid or was deleted. Its directory is watched, as editors often replace files
+ * instead of writing. Nothing is watched if the directory doesn't exist.
+ */
+export function watchConfigFile(
+  path: string,
+  onChange: (config: Config | Error) => void,
+): Disposable {
+  const absolute = resolve(path);
+  let watcher: Deno.FsWatcher;
+  try {
+    watcher = Deno.watchFs(resolve(absolute, ".."), { recursive: false });
+  } catch (error) {
+    console.warn(`Not watching ${path} for changes: ${error}`);
+    return { [Symbol.dispose]() {} };
+  }
+  const reload = debounce(() => {
+    readConfigFile(absolute, { required: true }).then(onChange, onChange);
+  }, 200);
+
+  (async () => {
+    for await (const event of watcher) {
+      if (event.paths.some((x) => resolve(x) === absolute)) {
+        reload();
+      }
+    }
+  })().catch((error) => onChange(error));
+
+  return {
+    [Symbol.dispose]() {
+      reload.clear();
+      watcher.close();
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import { HISTORY_PATH } from "./dav_server/history.ts";
+import { SCRIPTS_PATH } from "./script_index.ts";
+
+/** Path of the dashboard page. */
+export const DASHBOARD_PATH = "/_dashboard";
+
+/**
+ * Serves a page listing synced scripts from the script index, with their source and actions.
+ * Everything it does goes through the same endpoints, so it shares their authentication.
+ */
+export function dashboard(): Response {
+  return new Response(page, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy":
+        "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'",
+    },
+  });
+}
+
+const style = `
+body { font: 14px system-ui, sans-serif; margin: 0; display: flex; height: 100vh; }
+#list { width: 45%; overflow: auto; border-right: 1px solid #ccc; }
+#detail { flex: 1; overflow: auto; padding: 0 1em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+tr.script { cursor: pointer; }
+tr.script:hover, tr.selected { background: #eef4ff; }
+tr.removed { color: #999; text-decoration: line-through; }
+.matches { font-size: 12px; color: #666; }
+input { margin: 8px; padding: 4px; width: calc(100% - 24px); }
+pre { background: #fafafa; padding: 1em; overflow: auto; }
+.comment { color: #6a737d; } .string { color: #032f62; } .keyword { color: #d73a49; }
+.number { color: #005cc5; }
+button, a.button { margin-right: 8px; }
+`;
+
+/** Runs in the browser. */
+const script = `
+const scriptsPath = ${JSON.stringify(SCRIPTS_PATH)};
+const historyPath = ${JSON.stringify(HISTORY_PATH)};
+const list = document.querySelector("#scripts");
+const detail = document.querySelector("#detail");
+const filter = document.querySelector("#filter");
+let entries = [];
+
+function toUrl(path) {
+  return "/" + path.split("/").map(encodeURIComponent).join("/");
+}
+
+function create(tag, properties = {}, ...children) {
+  const element = Object.assign(document.createElement(tag), properties);
+  element.append(...children);
+  return element;
+}
+
+async function load() {
+  const response = await fetch(scriptsPath);
+  entries = await response.json();
+  render();
+}
+
+function render() {
+  const query = filter.value.toLowerCase();
+  const rows = entries
+    .filter((x) => x.path)
+    .filter((x) => !query || (x.header?.name ?? x.path).toLowerCase().includes(query))
+    .sort((a, b) => (a.header?.name ?? a.path).localeCompare(b.header?.name ?? b.path))
+    .map((entry) => {
+      const enabled = entry.meta?.enabled ?? entry.meta?.options?.enabled;
+      const state = entry.removed ? "removed" : enabled === false ? "disabled" : "enabled";
+      const patterns = [...(entry.header?.match ?? []), ...(entry.header?.include ?? [])];
+      const row = create(
+        "tr",
+        { className: "script" + (entry.removed ? " removed" : "") },
+        create("td", {}, entry.header?.name ?? entry.path,
+          create("div", { className: "matches" }, patterns.join("\\n"))),
+        create("td", {}, entry.header?.version ?? ""),
+        create("td", {}, state),
+        create("td", {}, entry.mtime ? new Date(entry.mtime).toLocaleString() : ""),
+      );
+      row.addEventListener("click", () => {
+        list.querySelector(".selected")?.classList.remove("selected");
+        row.classList.add("selected");
+        show(entry);
+      });
+      return row;
+    });
+  list.replaceChildren(...rows);
+}
+
+const keywords = new Set(("async await break case catch class const continue default delete do else " +
+  "export extends false finally for function if import in instanceof let new null return static " +
+  "super switch this throw true try typeof undefined var void while yield").split(" "));
+
+function highlight(source) {
+  const pattern = /(\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/)|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|\\b(\\d[\\d.]*)\\b|\\b([A-Za-z_$][\\w$]*)\\b/g;
+  const nodes = [];
+  let last = 0;
+  for (const match of source.matchAll(pattern)) {
+    const [text, comment, string, number, word] = match;
+    const className = comment ? "comment" : string ? "string" : number ? "number"
+      : keywords.has(word) ? "keyword" : "";
+    if (!className) {
+      continue;
+    }
+    nodes.push(source.slice(last, match.index), create("span", { className }, text));
+    last = match.index + text.length;
+  }
+  nodes.push(source.slice(last));
+  return nodes;
+}
+
+async function show(entry) {
+  const url = toUrl(entry.path);
+  const name = entry.header?.name ?? entry.path;
+  const source = await (await fetch(url)).text();
+
+  // Like Tampermonkey, only flag the script in its meta file, so that it can be restored.
+  const toggle = create("button", { textContent: entry.removed ? "Restore" : "Remove" });
+  toggle.disabled = !entry.metaPath;
+  toggle.addEventListener("click", async () => {
+    const question = "Remove " + name + "? Browsers syncing with this server will remove it too, " +
+      "and it can be restored here.";
+    if (!entry.removed && !confirm(question)) {
+      return;
+    }
+    await setRemoved(entry, !entry.removed);
+    await load();
+    await show(entries.find((x) => x.path === entry.path) ?? entry);
+  });
+
+  detail.replaceChildren(
+    create("h2", {}, name),
+    create("p", {},
+      create("a", { className: "button", href: url, download: entry.path.split("/").pop() }, "Download"),
+      toggle),
+    create("div", { id: "revisions" }),
+    create("pre", {}, ...highlight(source)),
+  );
+  await showRevisions(entry);
+}
+
+async function setRemoved(entry, removed) {
+  const url = toUrl(entry.metaPath);
+  const response = await fetch(url);
+  const meta = await response.json();
+  meta.options = { ...meta.options, removed };
+  meta.lastModified = Date.now();
+  const saved = await fetch(url, {
+    method: "PUT",
+    headers: { "If-Match": response.headers.get("etag") ?? "*" },
+    body: JSON.stringify(meta),
+  });
+  if (!saved.ok) {
+    alert("Couldn't save " + entry.metaPath + ": " + saved.status + " " + saved.statusText);
+  }
+}
+
+async function showRevisions(entry) {
+  const response = await fetch(historyPath + toUrl(entry.path));
+  if (!response.ok || !response.headers.get("content-type")?.includes("json")) {
+    return;
+  }
+  const revisions = await response.json();
+  const items = revisions.map(({ id, size }) => {
+    const restore = create("button", { textContent: "Restore" });
+    restore.addEventListener("click", async () => {
+      await fetch(historyPath + toUrl(entry.path) + "?revision=" + id, { method: "POST" });
+      await load();
+      await show(entries.find((x) => x.path === entry.path) ?? entry);
+    });
+    return create("li", {}, new Date(Number(id)).toLocaleString() + " (" + size + " bytes) ", restore);
+  });
+  if (items.length) {
+    document.querySelector("#revisions").append(create("h3", {}, "Revisions"), create("ul", {}, ...items));
+  }
+}
+
+filter.addEventListener("input", render);
+load();
+`;
+
+const page = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>TamperDAV</title>
+<style>${style}</style>
+</head>
+<body>
+<div id="list">
+<input id="filter" type="search" placeholder="Filter by name">
+<table>
+<thead><tr><th>Name</th><th>Version</th><th>State</th><th>Last modified</th></tr></thead>
+<tbody id="scripts"></tbody>
+</table>
+</div>
+<div id="detail"></div>
+<script>${script}</script>
+</body>
+</html>
+`;
@@ -1,8 +1,11 @@
 import { deadline } from "jsr:@std/async/deadline";
 import { delay } from "jsr:@std/async/delay";
-import { join } from "jsr:@std/path";
-import { assertEquals, assertStringIncludes } from "../tool/deps.ts";
+import { join, resolve } from "jsr:@std/path";
+import { assertEquals, assertNotEquals, assertStringIncludes } from "../tool/deps.ts";
+import { UserStore } from "./auth.ts";
 import { DavServer } from "./dav_server.ts";
+import { MemoryStorage } from "./memory_storage.ts";
+import { findChild, parseXml } from "./xml.ts";
 
 Deno.test("Given a server with files", async (test) => {
   const root = await Deno.makeTempDir();
@@ -11,7 +14,7 @@ Deno.test("Given a server with files", async (test) => {
   await Deno.mkdir(join(root, "Tampermonkey/sync"), { recursive: true });
   await Deno.writeTextFile(`${root}/Tampermonkey/sync/test2.js`, "Hello, script!");
 
-  const handler = new DavServer(root, {});
+  using handler = new DavServer(root, {});
   const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
   const { port } = server.addr;
 
@@ -29,6 +32,78 @@ Deno.test("Given a server with files", async (test) => {
     });
   });
 
+  await test.step("when PROPFIND with Depth: 1", async (test) => {
+    const response = await fetch(`http://localhost:${port}/`, {
+      method: "PROPFIND",
+      headers: { Depth: "1" },
+    });
+    const xml = await response.text();
+
+    await test.step("should contain only direct children", () => {
+      assertStringIncludes(xml, "<d:href>/Tampermonkey</d:href>");
+      assertEquals(xml.includes("test2.js"), false);
+    });
+  });
+
+  await test.step("when PROPFIND a file without Depth", async (test) => {
+    const response = await fetch(`http://localhost:${port}/test.txt`, { method: "PROPFIND" });
+    const xml = await response.text();
+
+    await test.step("should describe the file", () => {
+      assertEquals(response.status, 207);
+      assertStringIncludes(xml, "<d:href>/test.txt</d:href>");
+    });
+  });
+
+  await test.step("when PROPFIND specific properties", async (test) => {
+    const response = await fetch(`http://localhost:${port}/test.txt`, {
+      method: "PROPFIND",
+      headers: { Depth: "0" },
+      body: `<?xml version="1.0" encoding="utf-8" ?>
+<propfind xmlns="DAV:" xmlns:x="urn:example">
+  <prop><displayname/><getcontenttype/><x:unknown/></prop>
+</propfind>`,
+    });
+    const xml = await response.text();
+
+    await test.step("should return the known ones", () => {
+      assertStringIncludes(xml, "<d:displayname>test.txt</d:displayname>");
+      assertStringIncludes(xml, "<d:getcontenttype>text/plain; charset=UTF-8</d:getcontenttype>");
+      assertEquals(xml.includes("getlastmodified"), false);
+    });
+
+    await test.step("should return 404 for the unknown one", () => {
+      assertStringIncludes(xml, '<unknown xmlns="urn:example"/>');
+      assertStringIncludes(xml, "<d:status>HTTP/1.1 404 Not Found</d:status>");
+    });
+  });
+
+  await test.step("when PROPFIND propname", async (test) => {
+    const response = await fetch(`http://localhost:${port}/test.txt`, {
+      method: "PROPFIND",
+      headers: { Depth: "0" },
+      body: '<propfind xmlns="DAV:"><propname/></propfind>',
+    });
+    const xml = await response.text();
+
+    await test.step("should return empty property elements", () => {
+      assertStringIncludes(xml, "<d:creationdate/>");
+      assertStringIncludes(xml, "<d:getetag/>");
+    });
+  });
+
+  await test.step("when GET a path escaping the root", async (test) => {
+    const response = await fetch(`http://localhost:${port}/..%5c..%5cetc%5cpasswd`);
+
+    await test.step("should return 403", () => {
+      assertEquals(response.status, 403);
+    });
+
+    await test.step("should return DAV error", async () => {
+      assertStringIncludes(await response.text(), "<td:exception>Forbidden</td:exception>");
+    });
+  });
+
   await server.shutdown();
   await Deno.remove(root, { recursive: true });
 });
@@ -77,3 +152,951 @@ Deno.test("Given fresh server", async (test) => {
   await server.shutdown();
   await Deno.remove(root, { recursive: true });
 });
+
+Deno.test("Given a server with a script", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when COPY to a new path", async (test) => {
+    const response = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "COPY",
+      headers: { Destination: `http://localhost:${port}/b.user.js` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 201", () => {
+      assertEquals(response.status, 201);
+    });
+
+    await test.step("should duplicate the content", async () => {
+      assertEquals(await Deno.readTextFile(join(root, "b.user.js")), "// a");
+    });
+  });
+
+  await test.step("when MOVE onto an existing path without overwrite", async (test) => {
+    const response = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/b.user.js`, Overwrite: "F" },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 412", () => {
+      assertEquals(response.status, 412);
+    });
+  });
+
+  await test.step("when MOVE while subscribing", async (test) => {
+    // tampermonkey's first subscriptions are answered immediately
+    const voids = await Promise.all(
+      [...Array(4)].map(() => fetch(`http://localhost:${port}/`, { method: "SUBSCRIBE" })),
+    );
+    await Promise.all(voids.map((x) => x.body?.cancel()));
+
+    const subscription = fetch(`http://localhost:${port}/`, { method: "SUBSCRIBE" });
+    await delay(100);
+    const response = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/b.user.js` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 204", () => {
+      assertEquals(response.status, 204);
+    });
+
+    await test.step("subscriber should see both paths", async () => {
+      const xml = await (await deadline(subscription, 2000)).text();
+      assertStringIncludes(xml, "<d:href>/a.user.js</d:href>");
+      assertStringIncludes(xml, "<d:href>/b.user.js</d:href>");
+    });
+  });
+
+  await test.step("when MOVE a collection into a child named like a parent", async (test) => {
+    await Deno.mkdir(join(root, "dir"));
+    const response = await fetch(`http://localhost:${port}/dir`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/dir/..foo` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 403", () => {
+      assertEquals(response.status, 403);
+    });
+  });
+
+  await test.step("when MOVE with a stale If-Match", async (test) => {
+    const response = await fetch(`http://localhost:${port}/b.user.js`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/c.user.js`, "If-Match": '"stale"' },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 412 and keep the source", async () => {
+      assertEquals(response.status, 412);
+      assertEquals(await Deno.readTextFile(join(root, "b.user.js")), "// a");
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a script synced by a browser", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// first");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+  const url = `http://localhost:${port}/a.user.js`;
+
+  const first = await fetch(url);
+  await first.body?.cancel();
+  const etag = first.headers.get("etag")!;
+
+  await test.step("when GET with the same ETag", async (test) => {
+    const response = await fetch(url, { headers: { "If-None-Match": etag } });
+    await response.body?.cancel();
+
+    await test.step("should return 304", () => {
+      assertEquals(response.status, 304);
+    });
+  });
+
+  let secondEtag = "";
+  await test.step("when PUT with the current ETag", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// second",
+      headers: { "If-Match": etag, "X-OC-Mtime": "1700000000" },
+    });
+    await response.body?.cancel();
+    secondEtag = response.headers.get("etag") ?? "";
+
+    await test.step("should return 200 with a new ETag", () => {
+      assertEquals(response.status, 200);
+      assertNotEquals(secondEtag, etag);
+    });
+  });
+
+  await test.step("when PUT with the stale ETag", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// third",
+      headers: { "If-Match": etag },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 412", () => {
+      assertEquals(response.status, 412);
+    });
+
+    await test.step("should keep the content", async () => {
+      assertEquals(await Deno.readTextFile(join(root, "a.user.js")), "// second");
+    });
+  });
+
+  await test.step("when PUT content of the same size with the same X-OC-Mtime", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// SECOND",
+      headers: { "If-Match": secondEtag, "X-OC-Mtime": "1700000000" },
+    });
+    await response.body?.cancel();
+    const stale = await fetch(url, {
+      method: "PUT",
+      body: "// third",
+      headers: { "If-Match": secondEtag },
+    });
+    await stale.body?.cancel();
+
+    await test.step("should change the ETag", () => {
+      assertEquals(response.status, 200);
+      assertNotEquals(response.headers.get("etag"), secondEtag);
+    });
+
+    await test.step("should reject the previous ETag", () => {
+      assertEquals(stale.status, 412);
+    });
+  });
+
+  await test.step("when PUT an existing file with If-None-Match: *", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// fourth",
+      headers: { "If-None-Match": "*" },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 412", () => {
+      assertEquals(response.status, 412);
+    });
+  });
+
+  await test.step("when PUT a new file with If-None-Match: *", async (test) => {
+    const response = await fetch(`http://localhost:${port}/b.user.js`, {
+      method: "PUT",
+      body: "// b",
+      headers: { "If-None-Match": "*" },
+    });
+    await response.body?.cancel();
+
+    await test.step("should create it", async () => {
+      assertEquals(response.status, 200);
+      assertEquals(await Deno.readTextFile(join(root, "b.user.js")), "// b");
+    });
+  });
+
+  await test.step("when two PUTs race with the same ETag", async (test) => {
+    const current = await fetch(url, { method: "HEAD" });
+    const ifMatch = current.headers.get("etag") ?? "";
+    const responses = await Promise.all(
+      ["// racer 1", "// racer 2"].map((body) =>
+        fetch(url, { method: "PUT", body, headers: { "If-Match": ifMatch } })
+      ),
+    );
+    await Promise.all(responses.map((x) => x.body?.cancel()));
+
+    await test.step("should let only one of them write", () => {
+      assertEquals(responses.map((x) => x.status).sort(), [200, 412]);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a server with locking", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+
+  using handler = new DavServer(root, { locking: true });
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+  const url = `http://localhost:${port}/a.user.js`;
+
+  const lockResponse = await fetch(url, {
+    method: "LOCK",
+    headers: { Timeout: "Second-60" },
+    body: `<?xml version="1.0" encoding="utf-8" ?>
+<D:lockinfo xmlns:D="DAV:">
+  <D:lockscope><D:exclusive/></D:lockscope>
+  <D:locktype><D:write/></D:locktype>
+  <D:owner><D:href>mailto:someone@example.com</D:href></D:owner>
+</D:lockinfo>`,
+  });
+  const lockXml = await lockResponse.text();
+  const token = lockResponse.headers.get("lock-token")!;
+
+  await test.step("when LOCK", async (test) => {
+    await test.step("should return 200 with a token", () => {
+      assertEquals(lockResponse.status, 200);
+      assertEquals(lockResponse.headers.get("dav"), "1, 2");
+      assertStringIncludes(lockXml, `<d:href>${token.slice(1, -1)}</d:href>`);
+    });
+  });
+
+  await test.step("when PUT without the token", async (test) => {
+    const response = await fetch(url, { method: "PUT", body: "// b" });
+    await response.body?.cancel();
+
+    await test.step("should return 423", () => {
+      assertEquals(response.status, 423);
+    });
+  });
+
+  await test.step("when PROPFIND", async (test) => {
+    const response = await fetch(url, { method: "PROPFIND", headers: { Depth: "0" } });
+    const xml = await response.text();
+
+    await test.step("should show the lock", () => {
+      assertStringIncludes(xml, "<d:lockdiscovery><d:activelock>");
+      assertStringIncludes(xml, "<d:supportedlock>");
+    });
+  });
+
+  await test.step("when PUT with the token only under Not", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// b",
+      headers: { If: `(Not <DAV:no-lock>) (Not ${token})` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should not count it as submitted", () => {
+      assertEquals(response.status, 423);
+    });
+  });
+
+  await test.step("when PUT with the token and a stale entity tag", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// b",
+      headers: { If: `(${token} ["stale"])` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 412", () => {
+      assertEquals(response.status, 412);
+    });
+  });
+
+  await test.step("when PUT with the token", async (test) => {
+    const response = await fetch(url, {
+      method: "PUT",
+      body: "// b",
+      headers: { If: `(${token})` },
+    });
+    await response.body?.cancel();
+
+    await test.step("should return 200", () => {
+      assertEquals(response.status, 200);
+    });
+  });
+
+  await test.step("when UNLOCK and PUT", async (test) => {
+    const unlockResponse = await fetch(url, { method: "UNLOCK", headers: { "Lock-Token": token } });
+    await unlockResponse.body?.cancel();
+    const response = await fetch(url, { method: "PUT", body: "// c" });
+    await response.body?.cancel();
+
+    await test.step("should return 204 and 200", () => {
+      assertEquals([unlockResponse.status, response.status], [204, 200]);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a script with dead properties", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  const patchResponse = await fetch(`http://localhost:${port}/a.user.js`, {
+    method: "PROPPATCH",
+    body: `<?xml version="1.0" encoding="utf-8" ?>
+<D:propertyupdate xmlns:D="DAV:" xmlns:Z="urn:team">
+  <D:set><D:prop><Z:owner>Ann &amp; Bob</Z:owner><Z:review>pending</Z:review></D:prop></D:set>
+  <D:remove><D:prop><Z:review/></D:prop></D:remove>
+</D:propertyupdate>`,
+  });
+  await patchResponse.body?.cancel();
+
+  await test.step("when PROPPATCH", async (test) => {
+    await test.step("should return 207", () => {
+      assertEquals(patchResponse.status, 207);
+    });
+  });
+
+  await test.step("when MOVE and PROPFIND", async (test) => {
+    const moveResponse = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/b.user.js` },
+    });
+    await moveResponse.body?.cancel();
+    const response = await fetch(`http://localhost:${port}/`, { method: "PROPFIND" });
+    const xml = await response.text();
+
+    await test.step("should keep the property at the new path", () => {
+      assertStringIncludes(xml, '<owner xmlns="urn:team">Ann &amp; Bob</owner>');
+      assertEquals(xml.includes("review"), false);
+    });
+
+    await test.step("should hide the property store", () => {
+      assertEquals(xml.includes(".tamperdav"), false);
+    });
+  });
+
+  await test.step("when PROPPATCH a live property", async (test) => {
+    const response = await fetch(`http://localhost:${port}/b.user.js`, {
+      method: "PROPPATCH",
+      body: `<D:propertyupdate xmlns:D="DAV:" xmlns:Z="urn:team">
+  <D:set><D:prop><D:getetag>"x"</D:getetag><Z:owner>Carol</Z:owner></D:prop></D:set>
+</D:propertyupdate>`,
+    });
+    const xml = await response.text();
+
+    await test.step("should fail all of them", () => {
+      assertStringIncludes(xml, "HTTP/1.1 403 Forbidden");
+      assertStringIncludes(xml, "HTTP/1.1 424 Failed Dependency");
+    });
+  });
+
+  await test.step("when GET the property store", async (test) => {
+    const response = await fetch(`http://localhost:${port}/.tamperdav/properties.json`);
+    await response.body?.cancel();
+
+    await test.step("should return 403", () => {
+      assertEquals(response.status, 403);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a script named with reserved characters", async (test) => {
+  const root = await Deno.makeTempDir();
+  const name = "a & b <😀>.user.js";
+  await Deno.writeTextFile(join(root, name), "// a");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when PROPFIND", async (test) => {
+    const response = await fetch(`http://localhost:${port}/`, { method: "PROPFIND" });
+    const multistatus = parseXml(await response.text());
+    const hrefs = multistatus.children.map((x) => findChild(x, "href")?.text);
+
+    await test.step("should return well-formed, encoded hrefs", () => {
+      assertEquals(hrefs, ["/", "/a%20%26%20b%20%3C%F0%9F%98%80%3E.user.js"]);
+    });
+
+    await test.step("the href should be fetchable", async () => {
+      const file = await fetch(`http://localhost:${port}${hrefs[1]}`);
+      assertEquals(await file.text(), "// a");
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a client which synced with a cursor", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+  await Deno.writeTextFile(join(root, "b.user.js"), "// b");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  const initialResponse = await fetch(`http://localhost:${port}/`, { method: "PROPFIND" });
+  const initial = parseXml(await initialResponse.text());
+  const cursor = findChild(initial, "cursor", "http://dav.tampermonkey.net/ns")?.text;
+
+  await test.step("when PROPFIND with the cursor after a change", async (test) => {
+    await delay(200);
+    await Deno.writeTextFile(join(root, "b.user.js"), "// b2");
+    await delay(600);
+    const response = await fetch(`http://localhost:${port}/`, {
+      method: "PROPFIND",
+      headers: { Cursor: cursor ?? "" },
+    });
+    const multistatus = parseXml(await response.text());
+
+    await test.step("should list only the changed file", () => {
+      const hrefs = multistatus.children.flatMap((x) => findChild(x, "href")?.text ?? []);
+      assertEquals(hrefs, ["/b.user.js"]);
+    });
+
+    await test.step("should return a newer cursor", () => {
+      const next = findChild(multistatus, "cursor", "http://dav.tampermonkey.net/ns")?.text;
+      assertNotEquals(next, cursor);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given two browsers", async (test) => {
+  const root = await Deno.makeTempDir();
+  const file = join(root, "test.txt");
+  await Deno.writeTextFile(file, "Hello, world!");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+  const subscribe = (clientId: string) =>
+    fetch(`http://localhost:${port}/`, {
+      method: "SUBSCRIBE",
+      headers: { "X-Client-Id": clientId },
+    });
+
+  await test.step("when one of them drains its void subscriptions", async (test) => {
+    const voids = await deadline(Promise.all([1, 2, 3, 4].map(() => subscribe("a"))), 1000);
+    const longPoll = subscribe("a");
+    const other = await deadline(subscribe("b"), 1000);
+
+    await test.step("should still answer the other one right away", () => {
+      assertEquals(voids.map((x) => x.status), [204, 204, 204, 204]);
+      assertEquals(other.status, 204);
+    });
+
+    await test.step("should keep the first one waiting for changes", async () => {
+      await delay(800);
+      await Deno.writeTextFile(file, "Changed");
+      const response = await deadline(longPoll, 1000);
+      await response.body?.cancel();
+      assertEquals(response.status, 207);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a client listening to the change feed", async (test) => {
+  const root = await Deno.makeTempDir();
+  const file = join(root, "a.user.js");
+  await Deno.writeTextFile(file, "// a");
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  const response = await fetch(`http://localhost:${port}/_events`);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+  await test.step("when a file changes", async (test) => {
+    await delay(200);
+    await Deno.writeTextFile(file, "// a2");
+    const { value } = await deadline(reader.read(), 2000);
+
+    await test.step("should stream an event", () => {
+      assertEquals(response.headers.get("content-type"), "text/event-stream; charset=utf-8");
+      assertStringIncludes(value ?? "", "event: changes\n");
+    });
+
+    await test.step("should describe the file", () => {
+      const data = JSON.parse(value!.match(/^data: (.*)$/m)![1]);
+      assertEquals(data.changes[0].path, "a.user.js");
+      assertEquals(data.changes[0].size, 5);
+    });
+  });
+
+  await test.step("when listening over a WebSocket", async (test) => {
+    const socket = new WebSocket(`ws://localhost:${port}/_events`);
+    const messages: MessageEvent[] = [];
+    const received = new Promise((resolve) => {
+      socket.addEventListener("message", (message) => {
+        messages.push(message);
+        resolve(message);
+      });
+    });
+    await new Promise((resolve) => socket.addEventListener("open", resolve, { once: true }));
+    await delay(200);
+    await Deno.writeTextFile(file, "// a3!");
+    await deadline(received, 2000);
+    const closed = new Promise((resolve) => socket.addEventListener("close", resolve));
+    socket.close();
+    await closed;
+
+    await test.step("should send the change as a message", () => {
+      const data = JSON.parse(messages[0].data);
+      assertEquals(data.type, "changes");
+      assertEquals(data.changes[0].path, "a.user.js");
+      assertEquals(data.changes[0].size, 6);
+    });
+  });
+
+  await reader.cancel();
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a server on memory storage", async (test) => {
+  const storage = new MemoryStorage();
+  const root = resolve("/dav");
+  await storage.mkdir(root);
+
+  using handler = new DavServer(root, {}, storage);
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when PUT and MOVE a script", async (test) => {
+    const putResponse = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "PUT",
+      body: "// a",
+    });
+    await putResponse.body?.cancel();
+    const moveResponse = await fetch(`http://localhost:${port}/a.user.js`, {
+      method: "MOVE",
+      headers: { Destination: `http://localhost:${port}/b.user.js` },
+    });
+    await moveResponse.body?.cancel();
+
+    await test.step("should serve it from the new path", async () => {
+      const response = await fetch(`http://localhost:${port}/b.user.js`);
+      assertEquals(await response.text(), "// a");
+    });
+
+    await test.step("should list it", async () => {
+      const response = await fetch(`http://localhost:${port}/`, { method: "PROPFIND" });
+      const multistatus = parseXml(await response.text());
+      const hrefs = multistatus.children.flatMap((x) => findChild(x, "href")?.text ?? []);
+      assertEquals(hrefs, ["/", "/b.user.js"]);
+    });
+
+    await test.step("should keep it in memory", async () => {
+      assertEquals((await storage.stat(join(root, "b.user.js"))).size, 4);
+    });
+  });
+
+  await server.shutdown();
+});
+
+Deno.test("Given a server keeping history", async (test) => {
+  const storage = new MemoryStorage();
+  const root = resolve("/dav");
+  await storage.mkdir(root);
+
+  using handler = new DavServer(root, { history: 2 }, storage);
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+  const url = `http://localhost:${port}/a.user.js`;
+  const historyUrl = `http://localhost:${port}/_history/a.user.js`;
+
+  for (const body of ["// v1", "// v2"]) {
+    const response = await fetch(url, { method: "PUT", body });
+    await response.body?.cancel();
+  }
+
+  await test.step("when list revisions", async (test) => {
+    const revisions = await (await fetch(historyUrl)).json();
+
+    await test.step("should have the overwritten one", () => {
+      assertEquals(revisions.length, 1);
+    });
+
+    await test.step("when restore it", async (test) => {
+      const response = await fetch(`${historyUrl}?revision=${revisions[0].id}`, {
+        method: "POST",
+      });
+      await response.body?.cancel();
+
+      await test.step("should bring the content back", async () => {
+        assertEquals(response.status, 200);
+        assertEquals(await (await fetch(url)).text(), "// v1");
+      });
+
+      await test.step("should keep the replaced content", async () => {
+        const revisions = await (await fetch(historyUrl)).json();
+        assertEquals(revisions.length, 2);
+      });
+    });
+  });
+
+  await server.shutdown();
+});
+
+Deno.test("Given a server with synced scripts", async (test) => {
+  const storage = new MemoryStorage();
+  const root = resolve("/dav");
+  await storage.mkdir(root);
+  const encoder = new TextEncoder();
+  await storage.write(
+    join(root, "b31a.user.js"),
+    encoder.encode("// ==UserScript==\n// @name Foo\n// @version 1.0\n// ==/UserScript==\n"),
+  );
+  await storage.write(
+    join(root, "b31a.meta.json"),
+    encoder.encode('{"uuid":"b31a","options":{"removed":false}}'),
+  );
+
+  using handler = new DavServer(root, {}, storage);
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when GET the script API", async (test) => {
+    const entries = await (await fetch(`http://localhost:${port}/_api/scripts`)).json();
+
+    await test.step("should pair the script with its meta", () => {
+      assertEquals(entries.length, 1);
+      assertEquals(entries[0].uuid, "b31a");
+      assertEquals(entries[0].header.name, "Foo");
+    });
+  });
+
+  await test.step("when the script is updated", async (test) => {
+    const response = await fetch(`http://localhost:${port}/b31a.user.js`, {
+      method: "PUT",
+      body: "// ==UserScript==\n// @name Foo\n// @version 1.1\n// ==/UserScript==\n",
+    });
+    await response.body?.cancel();
+    await delay(700);
+    const entries = await (await fetch(`http://localhost:${port}/_api/scripts?q=foo`)).json();
+
+    await test.step("should show the new version", () => {
+      assertEquals(entries[0].header.version, "1.1");
+    });
+  });
+
+  await test.step("when the dashboard removes the script", async (test) => {
+    const url = `http://localhost:${port}/b31a.meta.json`;
+    const current = await fetch(url);
+    const meta = await current.json();
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: { "If-Match": current.headers.get("etag")! },
+      body: JSON.stringify({ ...meta, options: { ...meta.options, removed: true } }),
+    });
+    await response.body?.cancel();
+    await delay(700);
+    const entries = await (await fetch(`http://localhost:${port}/_api/scripts`)).json();
+
+    await test.step("should keep the script flagged as removed", async () => {
+      assertEquals(response.status, 200);
+      assertEquals(entries.length, 1);
+      assertEquals(entries[0].removed, true);
+      assertEquals((await storage.stat(join(root, "b31a.user.js"))).isFile, true);
+    });
+  });
+
+  await server.shutdown();
+});
+
+Deno.test("Given a server with synced scripts on the file system", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(
+    join(root, "b31a.user.js"),
+    "// ==UserScript==\n// @name Foo\n// @version 1.0\n// ==/UserScript==\n",
+  );
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when the script is updated", async (test) => {
+    await delay(200);
+    const response = await fetch(`http://localhost:${port}/b31a.user.js`, {
+      method: "PUT",
+      body: "// ==UserScript==\n// @name Foo\n// @version 1.1\n// ==/UserScript==\n",
+    });
+    await response.body?.cancel();
+    await delay(700);
+    const entries = await (await fetch(`http://localhost:${port}/_api/scripts`)).json();
+
+    await test.step("should show the new version", () => {
+      assertEquals(entries.length, 1);
+      assertEquals(entries[0].header.version, "1.1");
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a library with a removed script", async (test) => {
+  const root = resolve("/dav");
+  const encoder = new TextEncoder();
+  const source = new MemoryStorage();
+  await source.mkdir(root);
+  for (const [uuid, removed] of [["b31a", false], ["20f4", true]] as const) {
+    await source.write(
+      join(root, `${uuid}.user.js`),
+      encoder.encode(`// ==UserScript==\n// @name ${uuid}\n// ==/UserScript==\n`),
+    );
+    await source.write(
+      join(root, `${uuid}.meta.json`),
+      encoder.encode(JSON.stringify({ uuid, options: { removed } })),
+    );
+  }
+  const target = new MemoryStorage();
+  await target.mkdir(root);
+
+  using sourceHandler = new DavServer(root, {}, source);
+  using targetHandler = new DavServer(root, {}, target);
+  const sourceServer = Deno.serve({ port: 0 }, sourceHandler.logAndHandleRequest);
+  const targetServer = Deno.serve({ port: 0 }, targetHandler.logAndHandleRequest);
+
+  await test.step("when export and import it to another server", async (test) => {
+    const archive = await fetch(`http://localhost:${sourceServer.addr.port}/_export`);
+    const response = await fetch(`http://localhost:${targetServer.addr.port}/_import`, {
+      method: "POST",
+      body: await archive.arrayBuffer(),
+    });
+
+    await test.step("should copy only the live script", async () => {
+      assertEquals(archive.headers.get("content-type"), "application/zip");
+      assertEquals(await response.json(), ["b31a.user.js", "b31a.meta.json"]);
+      const names = [];
+      for await (const path of target.list(root, { maxDepth: 1 })) {
+        names.push(path.slice(root.length + 1));
+      }
+      assertEquals(names.filter((x) => x).sort(), ["b31a.meta.json", "b31a.user.js"]);
+    });
+  });
+
+  await test.step("when import something not a zip", async (test) => {
+    const response = await fetch(`http://localhost:${targetServer.addr.port}/_import`, {
+      method: "POST",
+      body: "foo",
+    });
+    await response.body?.cancel();
+
+    await test.step("should reject it", () => {
+      assertEquals(response.status, 400);
+    });
+  });
+
+  await Promise.all([sourceServer.shutdown(), targetServer.shutdown()]);
+});
+
+Deno.test("Given a server", async (test) => {
+  const root = await Deno.makeTempDir();
+
+  using handler = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when open the dashboard", async (test) => {
+    const response = await fetch(`http://localhost:${port}/_dashboard`);
+    const html = await response.text();
+
+    await test.step("should serve the page", () => {
+      assertEquals(response.headers.get("content-type"), "text/html; charset=utf-8");
+      assertStringIncludes(html, "<title>TamperDAV</title>");
+    });
+  });
+
+  await test.step("when Tampermonkey on Firefox sends a preflight", async (test) => {
+    const origin = "moz-extension://0a1b2c3d-0000-4000-8000-000000000000";
+    const response = await fetch(`http://localhost:${port}/`, {
+      method: "OPTIONS",
+      headers: { Origin: origin, "Access-Control-Request-Method": "PROPFIND" },
+    });
+    await response.body?.cancel();
+
+    await test.step("should allow the origin", () => {
+      assertEquals(response.headers.get("access-control-allow-origin"), origin);
+      assertEquals(response.headers.get("access-control-max-age"), "3600");
+    });
+  });
+
+  await test.step("when an unknown origin sends a request", async (test) => {
+    const response = await fetch(`http://localhost:${port}/`, {
+      method: "OPTIONS",
+      headers: { Origin: "https://example.com" },
+    });
+    await response.body?.cancel();
+
+    await test.step("should not allow it", () => {
+      assertEquals(response.headers.get("access-control-allow-origin"), null);
+      assertEquals(response.headers.get("access-control-allow-methods"), null);
+    });
+  });
+
+  await test.step("when scrape metrics", async (test) => {
+    const text = await (await fetch(`http://localhost:${port}/_metrics`)).text();
+
+    await test.step("should count the previous requests", () => {
+      assertStringIncludes(text, 'tamperdav_requests_total{method="GET",status="200"} 1');
+      assertStringIncludes(text, "tamperdav_subscriptions 0");
+    });
+  });
+
+  await test.step("when PUT a chunked body and send an unknown method", async (test) => {
+    const body = ReadableStream.from(["// a", "// b"]).pipeThrough(new TextEncoderStream());
+    const responses = [
+      await fetch(`http://localhost:${port}/chunked.user.js`, { method: "PUT", body }),
+      await fetch(`http://localhost:${port}/`, { method: "FOO" }),
+    ];
+    await Promise.all(responses.map((x) => x.body?.cancel()));
+    const text = await (await fetch(`http://localhost:${port}/_metrics`)).text();
+
+    await test.step("should count the bytes written", () => {
+      assertStringIncludes(text, "tamperdav_put_bytes_total 8");
+    });
+
+    await test.step("should label the unknown method as other", () => {
+      assertStringIncludes(text, 'tamperdav_requests_total{method="OTHER",');
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a server with credentials", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+
+  using handler = new DavServer(root, { username: "alice", password: "a", "auth-failures": 2 });
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const { port } = server.addr;
+
+  await test.step("when a client sends many requests at once", async (test) => {
+    const headers = { Authorization: `Basic ${btoa("alice:a")}` };
+    const responses = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map(() => fetch(`http://localhost:${port}/a.user.js`, { headers })),
+    );
+    await Promise.all(responses.map((x) => x.body?.cancel()));
+
+    await test.step("should accept all of them", () => {
+      assertEquals(responses.map((x) => x.status), [200, 200, 200, 200, 200, 200]);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(root, { recursive: true });
+});
+
+Deno.test("Given a server isolating users", async (test) => {
+  const directory = await Deno.makeTempDir();
+  const users = new UserStore(join(directory, "users.json"));
+  await users.setPassword("alice", "a");
+  await users.setPassword("bob", "b");
+  await users.setPassword("carol", "c");
+  const storage = new MemoryStorage();
+  const root = resolve("/dav");
+  await storage.mkdir(root);
+
+  using handler = new DavServer(root, {
+    users: join(directory, "users.json"),
+    "per-user": true,
+    workspaces: { carol: { path: "users/alice", "read-only": true } },
+  }, storage);
+  const server = Deno.serve({ port: 0 }, handler.logAndHandleRequest);
+  const url = `http://localhost:${server.addr.port}/foo.user.js`;
+  const as = (user: string, password: string) => ({
+    Authorization: `Basic ${btoa(`${user}:${password}`)}`,
+  });
+
+  await test.step("when alice saves a script", async (test) => {
+    const put = await fetch(url, { method: "PUT", headers: as("alice", "a"), body: "foo" });
+    await put.body?.cancel();
+    const [bob, carol] = await Promise.all([
+      fetch(url, { headers: as("bob", "b") }),
+      fetch(url, { headers: as("carol", "c") }),
+    ]);
+
+    await test.step("should keep it in her directory", async () => {
+      assertEquals(await read(join(root, "users", "alice", "foo.user.js")), "foo");
+    });
+    await test.step("should hide it from bob", async () => {
+      await bob.body?.cancel();
+      assertEquals(bob.status, 404);
+    });
+    await test.step("should show it to carol who shares it", async () => {
+      assertEquals(await carol.text(), "foo");
+    });
+  });
+
+  await test.step("when carol saves a script", async (test) => {
+    const response = await fetch(url, { method: "PUT", headers: as("carol", "c"), body: "bar" });
+    await response.body?.cancel();
+
+    await test.step("should refuse it", () => {
+      assertEquals(response.status, 403);
+    });
+  });
+
+  await server.shutdown();
+  await Deno.remove(directory, { recursive: true });
+
+  async function read(path: string) {
+    return await new Response(await storage.read(path)).text();
+  }
+});
@@ -1,121 +1,534 @@
 import { delay } from "jsr:@std/async/delay";
 import {
+  copy,
   del,
   editor,
+  exportLibrary,
+  forbidden,
   get,
   head,
+  importLibrary,
+  lock,
   makeCollection,
+  move,
   options,
   propFind,
+  propPatch,
   put,
+  scriptHistory,
+  scripts,
   subscribe,
+  unlock,
 } from "./dav_server/handlers.ts";
-import { resolve } from "./deps.ts";
-import { FsSubscriber } from "./subscription_handler.ts";
+import { AccessLog } from "./access_log.ts";
+import { isSameText, parseBasicCredentials, UserStore } from "./auth.ts";
+import { ClientRegistry, getBasicUser, getRemoteAddress } from "./dav_server/clients.ts";
+import { applyCors, isPreflight, parseAllowedOrigins } from "./dav_server/cors.ts";
+import { events, EVENTS_PATH } from "./dav_server/events.ts";
+import { HISTORY_PATH } from "./dav_server/history.ts";
+import { LockManager } from "./dav_server/locks.ts";
+import { ForbiddenPathError } from "./dav_server/paths.ts";
+import { Metrics, METRICS_PATH } from "./dav_server/metrics.ts";
+import {
+  LoginThrottle,
+  type LoginVerdict,
+  RateLimiter,
+  tooManyRequests,
+} from "./dav_server/rate_limit.ts";
+import { dashboard, DASHBOARD_PATH } from "./dashboard.ts";
+import { join, resolve } from "./deps.ts";
+import { EXPORT_PATH, IMPORT_PATH } from "./library.ts";
+import { SCRIPTS_PATH } from "./script_index.ts";
+import { FsStorage, type Storage } from "./storage.ts";
+import {
+  getWorkspaceLocation,
+  validateWorkspaces,
+  Workspace,
+  type WorkspaceLocation,
+  type WorkspaceMapping,
+} from "./workspace.ts";
 
 type DavServerOptions = {
   debug?: boolean;
   verbose?: boolean;
   username?: string;
   password?: string;
-  "open-in-editor"?: string;
+  /** JSON file of accounts with hashed passwords, managed by `tamperdav user`. */
+  users?: string;
+  /** A command to open files with, or `true` for the default one. */
+  "open-in-editor"?: string | boolean;
   "meta-touch"?: boolean;
+  /** Enables LOCK and UNLOCK, i.e. WebDAV class 2. */
+  locking?: boolean;
+  /** Enables script history, keeping this many revisions per file. */
+  history?: number | string;
+  /** Drops revisions older than this. */
+  "history-days"?: number | string;
+  /** Commits every change to a git repository in the metadata directory. */
+  git?: boolean;
+  /** Directory to keep copies of scripts named after their headers, synced both ways. */
+  mirror?: string;
+  /** Gives each user the directory of their name under the root. */
+  "per-user"?: boolean;
+  /** Directories of users relative to the root, which isolates users like "per-user". */
+  workspaces?: Record<string, WorkspaceMapping>;
+  /** Origins allowed to make CORS requests, comma separated, Tampermonkey's by default. */
+  "cors-origins"?: string | string[];
+  /** Requests per minute allowed from each address, 0 to disable. */
+  "rate-limit"?: number | string;
+  /** Requests allowed at once from an idle address. */
+  "rate-burst"?: number | string;
+  /** Wrong credentials allowed from each address before it's locked out. */
+  "auth-failures"?: number | string;
+  /** Length of the first lockout, doubled by each further failure. */
+  "lockout-seconds"?: number | string;
+  "max-lockout-seconds"?: number | string;
+  /** File to append JSON lines of requests to. */
+  "access-log"?: string;
+  /** Size to rotate the access log at, 10 MiB by default. */
+  "access-log-max-bytes"?: number | string;
+  /** Rotated access logs to keep, 5 by default. */
+  "access-log-files"?: number | string;
 };
 
+/** Methods whose successful requests are attributed to the user in git mode. */
+const WRITE_METHODS = ["PUT", "DELETE", "MOVE", "COPY", "MKCOL", "POST"];
+
+/** Methods allowed in read-only workspaces. */
+const READ_METHODS = ["GET", "HEAD", "OPTIONS", "PROPFIND", "SUBSCRIBE", "EDITOR"];
+
 export class DavServer implements Disposable {
   #root: string;
-  #subscriber: FsSubscriber;
+  #storage: Storage;
+  #locks?: LockManager;
+  /** Keyed by the absolute root, opened on the first request of its users. */
+  #workspaces = new Map<string, Workspace>();
+  #users?: UserStore;
+  #allowedOrigins: RegExp[];
+  #rateLimiter?: RateLimiter;
+  #loginThrottle: LoginThrottle;
+  #metrics = new Metrics();
+  #accessLog?: AccessLog;
+  #clients = new ClientRegistry();
   #lastRequestId = 0;
+  /** Set once shutdown begins. */
+  #draining = false;
 
-  constructor(root: string, private readonly args: DavServerOptions) {
+  /** @param storage where files are kept, the file system by default. */
+  constructor(
+    root: string,
+    private args: DavServerOptions,
+    storage: Storage = new FsStorage(),
+  ) {
     this.#root = resolve(root);
-    this.#subscriber = new FsSubscriber(this.#root);
+    this.#storage = storage;
+    this.#locks = args.locking ? new LockManager() : undefined;
+    this.#users = args.users ? new UserStore(args.users) : undefined;
+    this.#allowedOrigins = parseAllowedOrigins(args["cors-origins"]);
+
+    const requestsPerMinute = Number(args["rate-limit"] ?? 1200);
+    if (requestsPerMinute > 0) {
+      const burst = Number(args["rate-burst"] ?? 300);
+      this.#rateLimiter = new RateLimiter({ requestsPerMinute, burst });
+    }
+    if (args["access-log"]) {
+      this.#accessLog = new AccessLog(args["access-log"], {
+        maxBytes: Number(args["access-log-max-bytes"] ?? 10 * 1024 * 1024),
+        maxFiles: Number(args["access-log-files"] ?? 5),
+      });
+    }
+    this.#loginThrottle = new LoginThrottle({
+      maxFailures: Number(args["auth-failures"] ?? 5),
+      lockoutSeconds: Number(args["lockout-seconds"] ?? 60),
+      maxLockoutSeconds: Number(args["max-lockout-seconds"] ?? 3600),
+    });
+    validateWorkspaces(this.#root, args.workspaces ?? {});
+    const isolatesUsers = args["per-user"] || Object.keys(args.workspaces ?? {}).length > 0;
+    if (isolatesUsers && !(args.users || args.username || args.password)) {
+      throw new Error("Each user has their own workspace, so credentials must be configured");
+    }
+
+    // Opens the shared root right away, so that git and the mirror catch up before any request.
+    const location = getWorkspaceLocation("", this.#options);
+    if (location?.path === "") {
+      this.#openWorkspace(location);
+    }
   }
 
-  logAndHandleRequest = async (request: Request): Promise<Response> => {
-    let response: Response;
-    try {
-      const responsePromise = this.#handleRequest(request);
+  logAndHandleRequest = async (
+    request: Request,
+    info?: Deno.ServeHandlerInfo,
+  ): Promise<Response> => {
+    const start = performance.now();
+    // Counts what is read, as chunked bodies have no Content-Length.
+    let requestBytes = 0;
+    const counted = request.body
+      ? new Request(request, {
+        body: request.body.pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform: (chunk, controller) => {
+              requestBytes += chunk.length;
+              controller.enqueue(chunk);
+            },
+          }),
+        ),
+      })
+      : request;
+    const responsePromise = this.#handleRequest(counted, info)
+      .catch((error) =>
+        applyCors(request, new Response(`${error}`, { status: 500 }), this.#allowedOrigins)
+      )
+      .then((response) => this.#measure(request, info, response, start, () => requestBytes));
 
-      this.#logResponsePairIfPossible(request, responsePromise);
+    this.#logResponsePairIfPossible(request, responsePromise);
 
-      response = await responsePromise;
-    } catch (error) {
-      response = new Response(`${error}`, { status: 500 });
+    return await responsePromise;
+  };
+
+  /** Replaces the credentials, logging and editor options while serving. */
+  reconfigure(
+    options: Pick<
+      DavServerOptions,
+      "username" | "password" | "users" | "debug" | "verbose" | "open-in-editor"
+    >,
+  ) {
+    if (options.users !== this.args.users) {
+      this.#users = options.users ? new UserStore(options.users) : undefined;
     }
+    this.args = { ...this.args, ...options };
+  }
 
-    return response;
-  };
+  /** Ends long-polls and change feeds with what they have, so that the listener can shut down. */
+  drain() {
+    this.#draining = true;
+    for (const workspace of this.#workspaces.values()) {
+      workspace.subscriber.drain();
+    }
+  }
+
+  /** Resolves after pending commits, mirror syncs and access log lines are written. */
+  async settle(): Promise<void> {
+    await Promise.all([...this.#workspaces.values()].map((x) => x.settle()));
+    await this.#accessLog?.settle();
+  }
 
   [Symbol.dispose](): void {
-    this.#subscriber[Symbol.dispose]();
+    for (const workspace of this.#workspaces.values()) {
+      workspace[Symbol.dispose]();
+    }
   }
 
-  #handleRequest = async (request: Request): Promise<Response> => {
-    if (!this.#isAuthorized(request)) {
+  #handleRequest = async (request: Request, info?: Deno.ServeHandlerInfo): Promise<Response> => {
+    const response = await this.#authorizeAndHandle(request, info);
+    return applyCors(request, response, this.#allowedOrigins);
+  };
+
+  #authorizeAndHandle = async (
+    request: Request,
+    info?: Deno.ServeHandlerInfo,
+  ): Promise<Response> => {
+    const address = getRemoteAddress(info);
+    const retryAfter = this.#rateLimiter?.take(address);
+    if (retryAfter) {
+      return tooManyRequests(retryAfter, "Too many requests");
+    }
+    if (isPreflight(request)) {
+      return options({ openInEditor: !!this.args["open-in-editor"], locking: !!this.#locks });
+    }
+
+    // Keyed by the user too, so that one account logging in doesn't clear another's failures.
+    const authorization = request.headers.get("authorization");
+    const user = getBasicUser(authorization);
+    const throttleKey = `${address}\n${user}`;
+    const lockedFor = this.#loginThrottle.getRetryAfter(throttleKey);
+    if (lockedFor) {
+      return tooManyRequests(lockedFor, "Too many failed logins");
+    }
+    // Browsers try without credentials first, which isn't a guess.
+    const verdict: LoginVerdict = authorization
+      ? await this.#loginThrottle.attempt(throttleKey, () => this.#isAuthorized(request))
+      : await this.#isAuthorized(request)
+      ? { type: "accepted" }
+      : { type: "rejected", lockoutSeconds: 0 };
+    if (verdict.type === "locked") {
+      return tooManyRequests(verdict.retryAfter, "Too many failed logins");
+    }
+    if (verdict.type === "rejected") {
+      if (verdict.lockoutSeconds) {
+        const client = `${user || "a user"} at ${address || "a client"}`;
+        console.warn(`auth: locked out ${client} for ${verdict.lockoutSeconds}s`);
+      }
       return new Response("Unauthorized", {
         status: 401,
         headers: { "WWW-Authenticate": 'Basic realm="Enter credentials"' },
       });
     }
 
-    const response = await this.#handle(request);
+    const location = getWorkspaceLocation(user, this.#options);
+    if (!location) {
+      return new Response("Each user has their own workspace, so credentials are required", {
+        status: 401,
+        headers: { "WWW-Authenticate": 'Basic realm="Enter credentials"' },
+      });
+    }
+    const method = request.method.toUpperCase();
+    if (location.readOnly && !READ_METHODS.includes(method)) {
+      return new Response("The workspace is read-only", { status: 403 });
+    }
+
+    const workspace = await this.#getWorkspace(location);
+    const response = await this.#handle(request, info, workspace).catch((error) => {
+      if (error instanceof ForbiddenPathError) {
+        return forbidden();
+      }
+      throw error;
+    });
     response.headers.set(
       "Cache-Control",
       "no-store, no-cache, must-revalidate, post-check=0, pre-check=0",
     );
-    response.headers.set("DAV", "1");
+    response.headers.set("DAV", this.#locks ? "1, 2" : "1");
+
+    if (workspace.git && response.ok && WRITE_METHODS.includes(method)) {
+      await workspace.git.attribute(request, user);
+    }
     return response;
   };
 
-  #handle = async (request: Request): Promise<Response> => {
+  #handle = async (
+    request: Request,
+    info: Deno.ServeHandlerInfo | undefined,
+    workspace: Workspace,
+  ): Promise<Response> => {
     const method = request.method.toUpperCase();
+    const { root, storage, subscriber, properties, history, writes } = workspace;
+    const locks = this.#locks;
+    const { pathname } = new URL(request.url);
+    if (method === "GET" && pathname === METRICS_PATH) {
+      return this.#serveMetrics();
+    }
+    if (method === "GET" && pathname === EVENTS_PATH) {
+      return events(request, { root, storage, subscriber });
+    }
+    if (method === "GET" && pathname === DASHBOARD_PATH) {
+      return dashboard();
+    }
+    if (method === "GET" && pathname === SCRIPTS_PATH) {
+      return await scripts(request, { index: workspace.scripts });
+    }
+    if (method === "GET" && pathname === EXPORT_PATH) {
+      return await exportLibrary(request, { root, storage, index: workspace.scripts });
+    }
+    if (method === "POST" && pathname === IMPORT_PATH) {
+      return await importLibrary(request, {
+        root,
+        storage,
+        subscriber,
+        locks,
+        history,
+      });
+    }
+    if (history && (pathname === HISTORY_PATH || pathname.startsWith(`${HISTORY_PATH}/`))) {
+      return await scriptHistory(request, {
+        root,
+        storage,
+        subscriber,
+        locks,
+        history,
+      });
+    }
+
     switch (method) {
       case "OPTIONS":
-        return options(!!this.args["open-in-editor"]);
+        return options({ openInEditor: !!this.args["open-in-editor"], locking: !!locks });
       case "PROPFIND":
-        return await propFind(request, this.#root);
+        return await propFind(request, {
+          root,
+          storage,
+          locks,
+          properties,
+          subscriber,
+        });
+      case "PROPPATCH":
+        return await propPatch(request, { root, storage, locks, properties });
       case "GET":
-        return await get(request, { root: this.#root });
+        return await get(request, { root, storage, client: this.#clients.get(request, info) });
       case "HEAD":
-        return await head(request, this.#root);
+        return await head(request, { root, storage });
       case "PUT":
-        return await put(request, this.#root);
+        return await put(request, { root, storage, locks, history, writes });
       case "MKCOL":
-        return await makeCollection(request, this.#root);
+        return await makeCollection(request, { root, storage, locks, properties });
       case "DELETE":
-        return await del(request, this.#root);
+        return await del(request, { root, storage, locks, properties, history, writes });
+      case "MOVE":
+        return await move(request, {
+          root,
+          storage,
+          subscriber,
+          locks,
+          properties,
+          history,
+          writes,
+        });
+      case "COPY":
+        return await copy(request, {
+          root,
+          storage,
+          subscriber,
+          locks,
+          properties,
+          history,
+          writes,
+        });
+      case "LOCK":
+        if (!locks) {
+          break;
+        }
+        return await lock(request, { root, storage, locks });
+      case "UNLOCK":
+        if (!locks) {
+          break;
+        }
+        return await unlock(request, { root, storage, locks });
       case "SUBSCRIBE":
         return await subscribe(request, {
-          root: this.#root,
-          subscriber: this.#subscriber,
+          root,
+          storage,
+          subscriber,
           metaTouch: !!this.args["meta-touch"],
+          client: this.#clients.get(request, info),
         });
       case "EDITOR":
         return await editor(request, {
-          root: this.#root,
+          root,
+          storage,
           editor: this.args["open-in-editor"],
         });
-      default:
-        return new Response(`Unknown method: ${method}`, {
-          status: 405,
-          statusText: "Method Not Allowed",
-          headers: {
-            "Content-Type": "text/plain",
-          },
-        });
     }
+
+    return new Response(`Unknown method: ${method}`, {
+      status: 405,
+      statusText: "Method Not Allowed",
+      headers: {
+        "Content-Type": "text/plain",
+      },
+    });
   };
 
-  #isAuthorized = (request: Request): boolean => {
+  /** Records the request once the response body is sent, which is when a long poll ends. */
+  #measure(
+    request: Request,
+    info: Deno.ServeHandlerInfo | undefined,
+    response: Response,
+    start: number,
+    getRequestBytes: () => number,
+  ): Response {
+    const method = request.method.toUpperCase();
+    const finish = (bytes: number) => {
+      const durationMs = performance.now() - start;
+      const requestBytes = getRequestBytes();
+      this.#metrics.record({ method, status: response.status, durationMs, requestBytes });
+      this.#accessLog?.write({
+        time: new Date(Date.now() - durationMs).toISOString(),
+        address: getRemoteAddress(info),
+        user: getBasicUser(request.headers.get("authorization")),
+        method,
+        path: new URL(request.url).pathname,
+        status: response.status,
+        duration: Math.round(durationMs),
+        bytes,
+      });
+    };
+
+    // Upgraded responses have no body to count.
+    if (!response.body || response.status === 101) {
+      finish(0);
+      return response;
+    }
+
+    let bytes = 0;
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        bytes += chunk.length;
+        controller.enqueue(chunk);
+      },
+      flush: () => finish(bytes),
+      cancel: () => finish(bytes),
+    });
+    const { status, statusText, headers } = response;
+    return new Response(response.body.pipeThrough(counter), { status, statusText, headers });
+  }
+
+  #serveMetrics() {
+    const workspaces = [...this.#workspaces.values()];
+    const sum = (count: (workspace: Workspace) => number) =>
+      workspaces.reduce((total, x) => total + count(x), 0);
+    const text = this.#metrics.render({
+      subscriptions: sum((x) => x.subscriber.subscriptionCount),
+      watchers: sum((x) => x.subscriber.watcherCount),
+    });
+    return new Response(text, {
+      status: 200,
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+    });
+  }
+
+  get #options() {
+    return { perUser: this.args["per-user"], workspaces: this.args.workspaces };
+  }
+
+  async #getWorkspace(location: WorkspaceLocation) {
+    const root = resolve(this.#root, location.path);
+    const workspace = this.#workspaces.get(root);
+    if (workspace) {
+      return workspace;
+    }
+
+    await this.#storage.mkdir(root, { recursive: true });
+    return this.#workspaces.get(root) ?? this.#openWorkspace(location);
+  }
+
+  #openWorkspace(location: WorkspaceLocation) {
+    const root = resolve(this.#root, location.path);
+    const maxCount = Number(this.args.history);
+    const { mirror } = this.args;
+    const workspace = new Workspace(root, this.#storage, {
+      history: maxCount > 0
+        ? { maxCount, maxAgeDays: Number(this.args["history-days"]) || undefined }
+        : undefined,
+      git: this.args.git,
+      mirror: mirror ? join(mirror, location.path) : undefined,
+      metaTouch: this.args["meta-touch"],
+    });
+    this.#workspaces.set(root, workspace);
+    if (this.#draining) {
+      workspace.subscriber.drain();
+    }
+    return workspace;
+  }
+
+  /** Accepts the accounts of the users file, and the one given by options if any. */
+  #isAuthorized = async (request: Request): Promise<boolean> => {
     const { username, password } = this.args;
-    if (!(username || password)) {
+    if (!(username || password || this.#users)) {
       return true;
     }
 
-    const auth = request.headers.get("authorization");
-    const [user, pass] = auth?.match("Basic (.*)")?.[1]?.split(":") ?? [];
-    return user == username && pass == password;
+    const credentials = parseBasicCredentials(request.headers.get("authorization"));
+    if (!credentials) {
+      return false;
+    }
+    if (username || password) {
+      const matches = await Promise.all([
+        isSameText(credentials.user, `${username ?? ""}`),
+        isSameText(credentials.password, `${password ?? ""}`),
+      ]);
+      if (matches.every((x) => x)) {
+        return true;
+      }
+    }
+    return !!await this.#users?.verify(credentials);
   };
 
   async #logResponsePairIfPossible(request: Request, responsePromise: Promise<Response>) {
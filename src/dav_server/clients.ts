@@ -0,0 +1,73 @@
+import { parseBasicCredentials } from "../auth.ts";
+
+// tampermonkey try subscribing simultaneously, maybe normal + incognito + unknown one + retry one.
+const TAMPERMONKEY_VOID_SUBSCRIBE_COUNT = 4;
+
+/** Clients not seen for this long are forgotten. */
+const IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** Long-poll heuristics of a single browser profile. */
+export class ClientState {
+  /** How many SUBSCRIBEs are answered right away. */
+  immediateCount = TAMPERMONKEY_VOID_SUBSCRIBE_COUNT;
+  lastSubscribeTime?: Date;
+  lastSeen = Date.now();
+
+  /** Tampermonkey is reading scripts, so it's about to subscribe again. */
+  onGet() {
+    this.immediateCount = Math.max(TAMPERMONKEY_VOID_SUBSCRIBE_COUNT, this.immediateCount - 1);
+  }
+
+  /** Changes were delivered, so the following void subscriptions shouldn't wait. */
+  onDelivered() {
+    this.immediateCount = TAMPERMONKEY_VOID_SUBSCRIBE_COUNT;
+  }
+}
+
+/** Keeps {@link ClientState} per client so that one browser doesn't affect another. */
+export class ClientRegistry {
+  readonly #clients = new Map<string, ClientState>();
+
+  get(request: Request, info?: Deno.ServeHandlerInfo): ClientState {
+    const now = Date.now();
+    for (const [key, client] of this.#clients) {
+      if (now - client.lastSeen > IDLE_TIMEOUT_MS) {
+        this.#clients.delete(key);
+      }
+    }
+
+    const key = getClientKey(request, info);
+    let client = this.#clients.get(key);
+    if (!client) {
+      client = new ClientState();
+      this.#clients.set(key, client);
+    }
+    client.lastSeen = now;
+    return client;
+  }
+}
+
+/**
+ * Identifies a client by the `X-Client-Id` header if given,
+ * otherwise by the user name, user agent and remote address.
+ */
+function getClientKey(request: Request, info?: Deno.ServeHandlerInfo) {
+  const clientId = request.headers.get("x-client-id");
+  if (clientId) {
+    return `id:${clientId}`;
+  }
+
+  const user = getBasicUser(request.headers.get("authorization"));
+  const userAgent = request.headers.get("user-agent") ?? "";
+  return JSON.stringify([user, userAgent, getRemoteAddress(info)]);
+}
+
+/** IP address of the client, or an empty string if it's not over TCP. */
+export function getRemoteAddress(info?: Deno.ServeHandlerInfo): string {
+  return info?.remoteAddr.transport === "tcp" ? info.remoteAddr.hostname : "";
+}
+
+/** User name of Basic credentials, or an empty string. */
+export function getBasicUser(authorization: string | null): string {
+  return parseBasicCredentials(authorization)?.user ?? "";
+}
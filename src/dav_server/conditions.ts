@@ -0,0 +1,142 @@
+import { encodeHex } from "jsr:@std/encoding/hex";
+import type { Storage, StorageStat } from "../storage.ts";
+
+/** A file or directory with its validator, as preconditions are evaluated against. */
+export type Validated = { stat: StorageStat; etag: string };
+
+type CachedEtag = { size: number; mtime: number; ctime: number; etag: string };
+
+/** Content hashes by path, for each storage. */
+const etagCaches = new WeakMap<Storage, Map<string, CachedEtag>>();
+const MAX_CACHED_ETAGS = 10000;
+
+/**
+ * Files changed more recently than this aren't cached, as another change within the same tick of
+ * `ctime` would go unnoticed.
+ */
+const SETTLED_MS = 2000;
+
+/**
+ * Builds a strong validator from the content of a file, since clients set its mtime by
+ * `X-OC-Mtime`. Hashes are cached while `ctime`, which only the system sets, stays the same.
+ * Directories are told apart by their modification time.
+ */
+export async function getEtag(storage: Storage, path: string, stat: StorageStat): Promise<string> {
+  const mtime = stat.mtime?.getTime() ?? 0;
+  if (stat.isDirectory) {
+    return `"${mtime.toString(16)}"`;
+  }
+
+  let cache = etagCaches.get(storage);
+  const ctime = stat.ctime?.getTime();
+  const cached = cache?.get(path);
+  if (
+    cached && cached.ctime === ctime && cached.size === stat.size && cached.mtime === mtime
+  ) {
+    return cached.etag;
+  }
+
+  const startedAt = Date.now();
+  const content = await new Response(await storage.read(path)).arrayBuffer();
+  const etag = `"${encodeHex(await crypto.subtle.digest("SHA-1", content))}"`;
+
+  if (ctime !== undefined && startedAt - ctime > SETTLED_MS) {
+    if (!cache) {
+      cache = new Map();
+      etagCaches.set(storage, cache);
+    }
+    cache.delete(path);
+    cache.set(path, { size: stat.size, mtime, ctime, etag });
+    // Maps iterate in insertion order, so the first one is the least recently hashed.
+    if (cache.size > MAX_CACHED_ETAGS) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  return etag;
+}
+
+/** Stats a file along with its ETag, or null if it doesn't exist. */
+export async function validate(storage: Storage, path: string): Promise<Validated | null> {
+  try {
+    const stat = await storage.stat(path);
+    return { stat, etag: await getEtag(storage, path, stat) };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function getValidatorHeaders({ stat, etag }: Validated): Record<string, string> {
+  return {
+    ETag: etag,
+    ...(stat.mtime ? { "Last-Modified": stat.mtime.toUTCString() } : {}),
+  };
+}
+
+/**
+ * Evaluates `If-Match`, `If-None-Match`, `If-Unmodified-Since` and `If-Modified-Since`
+ * in the order of RFC 9110 section 13.2.2.
+ * @param target current state of the target, `null` if it doesn't exist.
+ * @returns a response to answer with instead of processing the request, or undefined.
+ */
+export function checkPreconditions(
+  request: Request,
+  target: Validated | null,
+): Response | undefined {
+  const stat = target?.stat;
+  const etag = target?.etag;
+  const method = request.method.toUpperCase();
+  const isRead = method === "GET" || method === "HEAD";
+
+  const ifMatch = request.headers.get("if-match");
+  if (ifMatch !== null) {
+    if (!etag || !matchesEtag(ifMatch, etag, { weak: false })) {
+      return new Response(null, { status: 412 });
+    }
+  } else {
+    const since = parseHttpDate(request.headers.get("if-unmodified-since"));
+    if (since !== undefined && stat && truncateToSeconds(stat.mtime) > since) {
+      return new Response(null, { status: 412 });
+    }
+  }
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    if (etag && matchesEtag(ifNoneMatch, etag, { weak: true })) {
+      return isRead
+        ? new Response(null, { status: 304, headers: { ETag: etag } })
+        : new Response(null, { status: 412 });
+    }
+  } else if (isRead && etag) {
+    const since = parseHttpDate(request.headers.get("if-modified-since"));
+    if (since !== undefined && truncateToSeconds(stat?.mtime) <= since) {
+      return new Response(null, { status: 304, headers: { ETag: etag } });
+    }
+  }
+}
+
+function matchesEtag(header: string, etag: string, { weak }: { weak: boolean }) {
+  if (header.trim() === "*") {
+    return true;
+  }
+
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    if (tag.startsWith("W/")) {
+      return weak && tag.slice(2) === etag;
+    }
+    return tag === etag;
+  });
+}
+
+function parseHttpDate(header: string | null) {
+  const time = header ? Date.parse(header) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** HTTP dates have a resolution of seconds. */
+function truncateToSeconds(date: Date | null | undefined) {
+  return Math.floor((date?.getTime() ?? 0) / 1000) * 1000;
+}
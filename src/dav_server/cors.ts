@@ -0,0 +1,74 @@
+import { escape } from "jsr:@std/regexp/escape";
+
+/**
+ * Tampermonkey on Chrome, its beta and Edge, and any extension on Firefox and Safari,
+ * whose extension IDs differ per installation.
+ */
+export const DEFAULT_ALLOWED_ORIGINS = [
+  "chrome-extension://dhdgffkkebhmkfjojejmpbldmpobfkfo",
+  "chrome-extension://gcalenpjmijncebpfijmoaglllgpjagf",
+  "chrome-extension://iikmkjmpaadaobahmlepeloendndfphd",
+  "moz-extension://*",
+  "safari-web-extension://*",
+];
+
+/** Response headers scripts of allowed origins can read. */
+const EXPOSED_HEADERS = "DAV,ETag,Lock-Token,X-OC-Mtime";
+
+/** How long browsers may cache a preflight, in seconds. */
+const MAX_AGE_SECONDS = 3600;
+
+/**
+ * Compiles origin patterns like `moz-extension://*`, where `*` matches within a host.
+ * `*` alone allows every origin.
+ * @param origins comma separated, or a list
+ */
+export function parseAllowedOrigins(origins: string | string[] | undefined): RegExp[] {
+  const list = typeof origins === "string"
+    ? origins.split(",")
+    : origins ?? DEFAULT_ALLOWED_ORIGINS;
+  return list.map((x) => x.trim()).filter((x) => x).map((pattern) => {
+    const source = pattern.split("*").map(escape).join(pattern === "*" ? ".*" : "[^/]*");
+    return new RegExp(`^${source}$`, "i");
+  });
+}
+
+/** A CORS preflight, which carries no credentials. */
+export function isPreflight(request: Request): boolean {
+  return request.method.toUpperCase() === "OPTIONS" && request.headers.has("origin") &&
+    request.headers.has("access-control-request-method");
+}
+
+/**
+ * Sets the CORS headers of an allowed origin, or strips any `Access-Control-*` header otherwise,
+ * so that no handler can reflect an origin by mistake.
+ */
+export function applyCors(request: Request, response: Response, allowed: RegExp[]): Response {
+  // Upgraded WebSocket responses can't be changed.
+  if (response.status === 101) {
+    return response;
+  }
+
+  // Caches must not serve the headers of one origin to another.
+  response.headers.append("Vary", "Origin");
+
+  const origin = request.headers.get("origin");
+  const isAllowed = !!origin && allowed.some((x) => x.test(origin));
+  if (!isAllowed) {
+    for (const name of [...response.headers.keys()]) {
+      if (name.startsWith("access-control-")) {
+        response.headers.delete(name);
+      }
+    }
+    return response;
+  }
+
+  response.headers.set("Access-Control-Allow-Origin", origin);
+  response.headers.set("Access-Control-Allow-Credentials", "true");
+  if (isPreflight(request)) {
+    response.headers.set("Access-Control-Max-Age", `${MAX_AGE_SECONDS}`);
+  } else {
+    response.headers.set("Access-Control-Expose-Headers", EXPOSED_HEADERS);
+  }
+  return response;
+}
@@ -0,0 +1,156 @@
+import { resolve } from "jsr:@std/path";
+import type { Storage } from "../storage.ts";
+import { type Change, FeedOverflowError, type FsSubscriber } from "../subscription_handler.ts";
+
+/** Path of the change feed. */
+export const EVENTS_PATH = "/_events";
+
+/** Change sets a client may fall behind by before it's dropped. It resumes from its cursor. */
+const MAX_PENDING_CHANGES = 100;
+
+/** Bytes a WebSocket client may leave unsent before it's dropped. */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+type FileChange = {
+  /** relative path */
+  path: string;
+  kind: "create" | "modify" | "remove";
+  /** ISO date, or null if removed. */
+  mtime: string | null;
+  size: number | null;
+};
+
+/**
+ * `changes` carries a batch of changes, and its id is the cursor to resume from.
+ * `reset` means the requested cursor is too old, so the client has to list everything again.
+ */
+type FeedEvent =
+  | { type: "changes"; id: number; changes: FileChange[] }
+  | { type: "reset"; id: number };
+
+/**
+ * Serves the change feed as Server-Sent Events, or as WebSocket messages if upgrade is requested.
+ *
+ * Clients resume with the `Last-Event-ID` header or the `since` query parameter.
+ */
+export function events(request: Request, { root, storage, subscriber }: {
+  root: string;
+  storage: Storage;
+  subscriber: FsSubscriber;
+}): Response {
+  const since = getSince(request);
+  const feed = openFeed({ root, storage, subscriber, since });
+
+  if (request.headers.get("upgrade")?.toLowerCase() === "websocket") {
+    const { socket, response } = Deno.upgradeWebSocket(request);
+    sendToSocket(socket, feed);
+    return response;
+  }
+
+  const body = feed
+    .pipeThrough(
+      new TransformStream<FeedEvent, string>({
+        transform: (event, controller) => controller.enqueue(toServerSentEvent(event)),
+      }),
+    )
+    .pipeThrough(new TextEncoderStream());
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+  });
+}
+
+function openFeed({ root, storage, subscriber, since }: {
+  root: string;
+  storage: Storage;
+  subscriber: FsSubscriber;
+  since?: number;
+}): ReadableStream<FeedEvent> {
+  // Subscribe first so that nothing is lost between the backlog and the live changes.
+  const feed = subscriber.feed({ maxPending: MAX_PENDING_CHANGES });
+  const cursor = subscriber.cursor;
+  const backlog = since === undefined ? [] : subscriber.entriesSince(since);
+
+  return feed.pipeThrough(
+    new TransformStream<Change[], FeedEvent>({
+      start: async (controller) => {
+        if (!backlog) {
+          controller.enqueue({ type: "reset", id: cursor });
+        } else if (backlog.length) {
+          controller.enqueue(await toChangesEvent(root, storage, backlog));
+        }
+      },
+      transform: async (changes, controller) => {
+        // The backlog may already contain changes which weren't debounced yet.
+        const fresh = changes.filter((x) => x.cursor > cursor);
+        if (fresh.length) {
+          controller.enqueue(await toChangesEvent(root, storage, fresh));
+        }
+      },
+    }),
+  );
+}
+
+async function sendToSocket(socket: WebSocket, feed: ReadableStream<FeedEvent>) {
+  const reader = feed.getReader();
+  // The feed may have errored already.
+  socket.addEventListener("close", () => reader.cancel().catch(() => {}));
+  await new Promise((ready) => {
+    socket.addEventListener("open", ready, { once: true });
+    socket.addEventListener("close", ready, { once: true });
+  });
+
+  try {
+    while (socket.readyState === WebSocket.OPEN) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      socket.send(JSON.stringify(value));
+      if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+        throw new FeedOverflowError();
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof FeedOverflowError)) {
+      throw error;
+    }
+    // 1013 is "try again later".
+    socket.close(1013, error.message);
+  } finally {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.close();
+    }
+  }
+}
+
+async function toChangesEvent(
+  root: string,
+  storage: Storage,
+  changes: Change[],
+): Promise<FeedEvent> {
+  // Only the last change of each path matters.
+  const latest = new Map(changes.map((x) => [x.path, x]));
+  const files = await Promise.all([...latest.values()].map(async ({ path, kind }) => {
+    const stat = await storage.stat(resolve(root, path)).catch(() => null);
+    return {
+      path,
+      kind: !stat ? "remove" : kind === "create" ? "create" : "modify",
+      mtime: stat?.mtime?.toISOString() ?? null,
+      size: stat?.size ?? null,
+    } satisfies FileChange;
+  }));
+  return { type: "changes", id: changes[changes.length - 1].cursor, changes: files };
+}
+
+function toServerSentEvent(event: FeedEvent) {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function getSince(request: Request) {
+  const since = Number(
+    request.headers.get("last-event-id") ?? new URL(request.url).searchParams.get("since") ??
+      NaN,
+  );
+  return Number.isSafeInteger(since) ? since : undefined;
+}
@@ -1,45 +1,220 @@
-import { expandGlob } from "jsr:@std/fs";
-import { join, resolve } from "jsr:@std/path";
-import { arrayToXml } from "../array_to_xml.ts";
+import { dirname, relative, resolve, SEPARATOR } from "jsr:@std/path";
+import {
+  arrayToXml,
+  buildConditionXml,
+  buildExceptionXml,
+  buildLockResponseXml,
+  buildPropPatchXml,
+  isLiveProperty,
+  parsePropFind,
+  type PropertySelection,
+  toHref,
+} from "../array_to_xml.ts";
 import { open } from "../deps.ts";
+import {
+  compareImportOrder,
+  getExportPaths,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_EXTRACTED_BYTES,
+  parseExportOptions,
+  validateImport,
+} from "../library.ts";
+import type { ScriptIndex } from "../script_index.ts";
+import type { Storage, StorageStat } from "../storage.ts";
 import { FsSubscriber, toSubscription } from "../subscription_handler.ts";
+import {
+  DAV_NAMESPACE,
+  findChild,
+  parseXml,
+  serializeContent,
+  type XmlElement,
+  XmlSyntaxError,
+} from "../xml.ts";
+import { element } from "../xml_builder.ts";
+import { createZip, readZip, ZipError } from "../zip.ts";
+import type { ClientState } from "./clients.ts";
+import { checkPreconditions, getEtag, getValidatorHeaders, validate } from "./conditions.ts";
+import { type History, HISTORY_PATH } from "./history.ts";
+import {
+  type IfCondition,
+  type Lock,
+  type LockManager,
+  parseIfHeader,
+  parseTimeout,
+} from "./locks.ts";
+import { ForbiddenPathError, getMetadataPattern, isInside, resolvePath } from "./paths.ts";
+import type { PropertyOperation, PropertyStore } from "./property_store.ts";
+import type { WriteQueue } from "./write_queue.ts";
 
-// tampermonkey try subscribing simultaneously, maybe normal + incognito + unknown one + retry one.
-const TAMPERMONKEY_VOID_SUBSCRIBE_COUNT = 4;
-let subscribeImmediateCount = TAMPERMONKEY_VOID_SUBSCRIBE_COUNT;
-let lastSubscribeRequestTime: Date | undefined;
-
-export function options(openInEditor: boolean) {
+/** Answers both WebDAV OPTIONS and CORS preflights, whose origin is checked by `applyCors`. */
+export function options({ openInEditor, locking }: { openInEditor: boolean; locking: boolean }) {
   const allowedMethods = [
     "GET",
     "HEAD",
     "OPTIONS",
     "PUT",
     "PROPFIND",
+    "PROPPATCH",
     "MKCOL",
     "DELETE",
+    "MOVE",
+    "COPY",
     "SUBSCRIBE",
+    ...(locking ? ["LOCK", "UNLOCK"] : []),
     ...(openInEditor ? ["EDITOR"] : []),
   ].join(",");
 
   return new Response(null, {
     status: 200,
     headers: {
+      "Allow": allowedMethods,
       "Access-Control-Allow-Methods": allowedMethods,
-      "Access-Control-Allow-Credentials": "true",
       "Access-Control-Allow-Headers":
-        "Authorization,User-Agent,Content-Type,Accept,Origin,X-Requested-With,Cursor",
+        "Authorization,User-Agent,Content-Type,Accept,Origin,X-Requested-With,Cursor,X-Client-Id,Destination,Overwrite,Depth,If,Lock-Token,Timeout,If-Match,If-None-Match,If-Modified-Since,If-Unmodified-Since,X-OC-Mtime",
     },
   });
 }
 
-export async function propFind(request: Request, root: string) {
+export function forbidden() {
+  return xmlResponse(
+    buildExceptionXml("Forbidden", "The requested path is outside of the served directory"),
+    403,
+  );
+}
+
+type PropertyOptions = {
+  root: string;
+  storage: Storage;
+  locks?: LockManager;
+  properties: PropertyStore;
+};
+
+export async function propFind(
+  request: Request,
+  { root, storage, locks, properties, subscriber }: PropertyOptions & {
+    subscriber: FsSubscriber;
+  },
+) {
+  const target = await resolvePath(root, new URL(request.url).pathname, storage);
+
+  let selection: PropertySelection | undefined;
+  try {
+    selection = parsePropFind(await request.text());
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) {
+      return new Response(error.message, { status: 400 });
+    }
+    throw error;
+  }
+  if (!selection) {
+    return new Response("Request body is not a DAV:propfind", { status: 400 });
+  }
+
+  const depth = getDepth(request);
+  const cursor = subscriber.cursor;
+  const since = getCursor(request);
+  const relativeTarget = relative(root, target).replace(/\\/g, "/") || ".";
+  const changes = since === undefined ? undefined : subscriber.changesSince(since, relativeTarget);
+  if (changes) {
+    const maxDepth = depth === "0" ? 0 : depth === "1" ? 1 : Infinity;
+    const files = [...changes]
+      .map((x) => resolve(root, x))
+      .filter((x) => relative(target, x).split(SEPARATOR).filter(Boolean).length <= maxDepth);
+    const xml = await arrayToXml({ root, storage, files, cursor, locks, properties, selection });
+    return xmlResponse(xml, 207);
+  }
+
+  return await listResources({
+    root,
+    storage,
+    target,
+    depth,
+    cursor,
+    locks,
+    properties,
+    selection,
+  });
+}
+
+export async function propPatch(
+  request: Request,
+  { root, storage, locks, properties }: PropertyOptions,
+) {
+  const path = await resolvePath(root, new URL(request.url).pathname, storage);
+  if (!(await statOrNull(storage, path))) {
+    return new Response(null, { status: 404 });
+  }
+
+  const locked = await checkLocks(request, { root, storage, locks, path });
+  if (locked) {
+    return locked;
+  }
+
+  let update: XmlElement;
+  try {
+    update = parseXml(await request.text());
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) {
+      return new Response(error.message, { status: 400 });
+    }
+    throw error;
+  }
+  if (update.namespace !== DAV_NAMESPACE || update.name !== "propertyupdate") {
+    return new Response("Request body is not a DAV:propertyupdate", { status: 400 });
+  }
+
+  const operations: PropertyOperation[] = [];
+  for (const instruction of update.children) {
+    const type = instruction.namespace === DAV_NAMESPACE ? instruction.name : "";
+    if (type !== "set" && type !== "remove") {
+      continue;
+    }
+
+    const props = findChild(instruction, "prop")?.children ?? [];
+    for (const element of props) {
+      const property = { namespace: element.namespace, name: element.name };
+      operations.push(
+        type === "set"
+          ? { type, property: { ...property, value: serializeContent(element) } }
+          : { type, property },
+      );
+    }
+  }
+
+  // Instructions are atomic: one protected property fails all of them.
+  const isProtected = operations.some((x) => isLiveProperty(x.property));
+  if (!isProtected) {
+    await properties.patch(path, operations);
+  }
+
+  const results = operations.map(({ property: { namespace, name } }) => ({
+    property: { namespace, name },
+    status: !isProtected
+      ? "200 OK"
+      : isLiveProperty({ namespace, name })
+      ? "403 Forbidden"
+      : "424 Failed Dependency",
+  }));
+  return xmlResponse(buildPropPatchXml(root, path, results), 207);
+}
+
+async function listResources(
+  { root, storage, target, depth, cursor, locks, properties, selection }: {
+    root: string;
+    storage: Storage;
+    target: string;
+    depth: string;
+    cursor?: number;
+    locks?: LockManager;
+    properties?: PropertyStore;
+    selection?: PropertySelection;
+  },
+) {
   try {
-    const recursive = request.headers.get("depth") !== "0";
-    const relativePath = "." + new URL(request.url).pathname;
-    const target = resolve(root, relativePath);
-    const files = await Array.fromAsync(expandGlob(`${target}${recursive ? "/**" : ""}`));
-    const xml = await arrayToXml({ root, files: files.map((x) => x.path) });
+    const maxDepth = depth === "0" ? 0 : depth === "1" ? 1 : Infinity;
+    const skip = [getMetadataPattern(root)];
+    const files = await Array.fromAsync(storage.list(target, { maxDepth, skip }));
+    const xml = await arrayToXml({ root, storage, files, cursor, locks, properties, selection });
     return new Response(xml, {
       status: 207,
       headers: {
@@ -54,78 +229,125 @@ export async function propFind(request: Request, root: string) {
   }
 }
 
-export async function get(request: Request, { root }: { root: string }) {
-  const relativePath = new URL(request.url).pathname;
-  const filePath = resolve(`${root}${relativePath}`);
+export async function get(
+  request: Request,
+  { root, storage, client }: { root: string; storage: Storage; client: ClientState },
+) {
+  const filePath = await resolvePath(root, new URL(request.url).pathname, storage);
 
-  subscribeImmediateCount = Math.max(
-    TAMPERMONKEY_VOID_SUBSCRIBE_COUNT,
-    subscribeImmediateCount - 1,
-  );
+  client.onGet();
 
   try {
-    const file = await Deno.open(filePath);
-    return new Response(file.readable, {
+    const stat = await storage.stat(filePath);
+    if (stat.isDirectory) {
+      return new Response("It is a directory", { status: 400 });
+    }
+    const target = { stat, etag: await getEtag(storage, filePath, stat) };
+    const precondition = checkPreconditions(request, target);
+    if (precondition) {
+      return precondition;
+    }
+
+    return new Response(await storage.read(filePath), {
       status: 200,
-      headers: { "Content-Type": "application/octet-stream" },
+      headers: { "Content-Type": "application/octet-stream", ...getValidatorHeaders(target) },
     });
   } catch (error) {
     if (error instanceof Deno.errors.NotFound) {
       return new Response(null, { status: 404 });
     }
-    if (typeof error === "object" && error && "code" in error && error.code === "EISDIR") {
-      return new Response("It is a directory", { status: 400 });
-    }
     throw error;
   }
 }
 
-export async function put(request: Request, root: string) {
-  const relativePath = new URL(request.url).pathname;
-  const filePath = join(root, relativePath);
-  const file = await Deno.open(filePath, {
-    create: true,
-    truncate: true,
-    write: true,
-  });
-  await request.body?.pipeTo(file.writable, { signal: request.signal });
+export async function put(
+  request: Request,
+  { root, storage, locks, history, writes }: {
+    root: string;
+    storage: Storage;
+    locks?: LockManager;
+    history?: History;
+    writes: WriteQueue;
+  },
+) {
+  const filePath = await resolvePath(root, new URL(request.url).pathname, storage);
 
-  const timestamp = request.headers.get("x-oc-mtime");
-  const headers = {} as Record<string, string>;
-  if (timestamp) {
-    const date = new Date(Math.floor(Number(timestamp) * 1000));
-    await Deno.utime(filePath, date, date);
-    headers["X-OC-Mtime"] = "accepted";
-  }
-  return new Response(null, { status: 200, headers });
+  return await writes.run(filePath, async () => {
+    const precondition = checkPreconditions(request, await validate(storage, filePath)) ??
+      await checkLocks(request, { root, storage, locks, path: filePath });
+    if (precondition) {
+      await request.body?.cancel();
+      return precondition;
+    }
+
+    await history?.save(filePath);
+    await storage.write(filePath, request.body ?? new Uint8Array(), { signal: request.signal });
+
+    const timestamp = request.headers.get("x-oc-mtime");
+    const headers = {} as Record<string, string>;
+    if (timestamp) {
+      const date = new Date(Math.floor(Number(timestamp) * 1000));
+      await storage.setModified(filePath, date);
+      headers["X-OC-Mtime"] = "accepted";
+    }
+    headers["ETag"] = await getEtag(storage, filePath, await storage.stat(filePath));
+    return new Response(null, { status: 200, headers });
+  });
 }
 
-export async function del(request: Request, working_dir: string) {
-  const relativePath = new URL(request.url).pathname;
-  const path = join(working_dir, relativePath);
+export async function del(
+  request: Request,
+  { root, storage, locks, properties, history, writes }: PropertyOptions & {
+    history?: History;
+    writes: WriteQueue;
+  },
+) {
+  const path = await resolvePath(root, new URL(request.url).pathname, storage);
 
-  try {
-    await Deno.remove(path);
-    return new Response(null, { status: 204 });
-  } catch (error) {
-    if (error instanceof Deno.errors.NotFound) {
-      return new Response(null, { status: 404 });
+  return await writes.run(path, async () => {
+    try {
+      const stat = await storage.stat(path);
+      const target = { stat, etag: await getEtag(storage, path, stat) };
+      const precondition = checkPreconditions(request, target) ??
+        await checkLocks(request, { root, storage, locks, path, recursive: true });
+      if (precondition) {
+        return precondition;
+      }
+
+      await history?.save(path);
+      await storage.remove(path);
+      locks?.release(path);
+      await properties.remove(path);
+      return new Response(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return new Response(null, { status: 404 });
+      }
+      throw error;
     }
-    throw error;
-  }
+  });
 }
 
-export async function head(request: Request, working_dir: string) {
-  const relativePath = new URL(request.url).pathname;
-  const filePath = join(working_dir, relativePath);
+export async function head(
+  request: Request,
+  { root, storage }: { root: string; storage: Storage },
+) {
+  const filePath = await resolvePath(root, new URL(request.url).pathname, storage);
 
   try {
-    const stat = await Deno.stat(filePath);
+    const stat = await storage.stat(filePath);
+    const target = { stat, etag: await getEtag(storage, filePath, stat) };
+    const precondition = checkPreconditions(request, target);
+    if (precondition) {
+      return precondition;
+    }
+
     return new Response(null, {
       status: 200,
       headers: {
         "Content-Length": stat.size.toString(),
         "Content-Type": "application/octet-stream",
+        ...getValidatorHeaders(target),
       },
     });
   } catch (error) {
@@ -136,50 +358,452 @@ export async function head(request: Request, working_dir: string) {
   }
 }
 
-export async function makeCollection(request: Request, root: string) {
-  const relativePath = new URL(request.url).pathname;
-  const fpath = join(root, relativePath);
+export async function makeCollection(
+  request: Request,
+  { root, storage, locks, properties }: PropertyOptions,
+) {
+  const fpath = await resolvePath(root, new URL(request.url).pathname, storage);
+
+  const locked = await checkLocks(request, { root, storage, locks, path: fpath });
+  if (locked) {
+    return locked;
+  }
 
   try {
-    await Deno.mkdir(fpath);
-    return await propFind(request, root);
+    await storage.mkdir(fpath);
+    return await listResources({ root, storage, target: fpath, depth: "0", locks, properties });
   } catch (error) {
     if (error instanceof Deno.errors.AlreadyExists) {
-      return new Response(
-        '<d:error xmlns:d="DAV:" xmlns:td="http://dav.tampermonkey.net/ns"><td:exception>MethodNotAllowed</td:exception><td:message>The resource you tried to create already exists</td:message></d:error>',
-        {
-          status: 405,
-          headers: { "Content-Type": "application/xml; charset=utf-8" },
-        },
+      return xmlResponse(
+        buildExceptionXml(
+          "MethodNotAllowed",
+          "The resource you tried to create already exists",
+        ),
+        405,
       );
     }
     return new Response(`${error}`, { status: 422 });
   }
 }
 
+type TransferOptions = {
+  root: string;
+  storage: Storage;
+  subscriber: FsSubscriber;
+  locks?: LockManager;
+  properties: PropertyStore;
+  history?: History;
+  writes: WriteQueue;
+};
+
+export async function move(request: Request, options: TransferOptions) {
+  return await transfer(request, { ...options, isMove: true });
+}
+
+export async function copy(request: Request, options: TransferOptions) {
+  return await transfer(request, { ...options, isMove: false });
+}
+
+async function transfer(
+  request: Request,
+  { root, storage, subscriber, locks, properties, history, writes, isMove }: TransferOptions & {
+    isMove: boolean;
+  },
+) {
+  const url = new URL(request.url);
+  const destinationHeader = request.headers.get("destination");
+  if (!destinationHeader) {
+    return new Response("Destination header is missing", { status: 400 });
+  }
+
+  const destinationUrl = new URL(destinationHeader, url);
+  if (destinationUrl.host !== url.host) {
+    return new Response("Destination is on another server", { status: 502 });
+  }
+
+  const source = await resolvePath(root, url.pathname, storage);
+  const destination = await resolvePath(root, destinationUrl.pathname, storage);
+  if (source === destination || destination === root) {
+    return new Response("Destination is not allowed", { status: 403 });
+  }
+
+  // RFC 4918 defaults overwrite to true when the header is omitted.
+  const depth = getDepth(request);
+  const overwrite = request.headers.get("overwrite")?.toUpperCase() !== "F";
+
+  const paths = isMove ? [source, destination] : [destination];
+  return await writes.runAll(paths, async () => {
+    let sourceStat: StorageStat;
+    try {
+      sourceStat = await storage.stat(source);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return new Response(null, { status: 404 });
+      }
+      throw error;
+    }
+    const precondition = checkPreconditions(request, {
+      stat: sourceStat,
+      etag: await getEtag(storage, source, sourceStat),
+    });
+    if (precondition) {
+      return precondition;
+    }
+
+    if (sourceStat.isDirectory) {
+      const isValidDepth = depth === "infinity" || (!isMove && depth === "0");
+      if (!isValidDepth) {
+        return new Response(`Invalid depth: ${depth}`, { status: 400 });
+      }
+      if (isInside(source, destination)) {
+        return new Response("Cannot move or copy a collection into itself", { status: 403 });
+      }
+    }
+
+    try {
+      await storage.stat(dirname(destination));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return new Response("Destination parent does not exist", { status: 409 });
+      }
+      throw error;
+    }
+
+    const locked = (isMove
+      ? await checkLocks(request, { root, storage, locks, path: source, recursive: true })
+      : undefined) ??
+      await checkLocks(request, { root, storage, locks, path: destination, recursive: true });
+    if (locked) {
+      return locked;
+    }
+
+    const existed = !!(await statOrNull(storage, destination));
+    if (existed) {
+      if (!overwrite) {
+        return new Response(null, { status: 412 });
+      }
+      await history?.save(destination);
+      await storage.remove(destination, { recursive: true });
+    }
+
+    if (isMove) {
+      await storage.rename(source, destination);
+      locks?.release(source);
+      await properties.move(source, destination);
+    } else {
+      if (sourceStat.isDirectory && depth === "0") {
+        await storage.mkdir(destination);
+      } else {
+        await storage.copy(source, destination);
+      }
+      await properties.copy(source, destination);
+    }
+
+    subscriber.publish(isMove ? [source, destination] : [destination]);
+
+    return new Response(null, { status: existed ? 204 : 201 });
+  });
+}
+
+/**
+ * Serves `/_history/<path>`. GET lists revisions as JSON, or returns the content of the one in
+ * the `revision` query parameter. POST restores that revision.
+ */
+export async function scriptHistory(
+  request: Request,
+  { root, storage, subscriber, locks, history }: {
+    root: string;
+    storage: Storage;
+    subscriber: FsSubscriber;
+    locks?: LockManager;
+    history: History;
+  },
+) {
+  const url = new URL(request.url);
+  const path = await resolvePath(root, url.pathname.slice(HISTORY_PATH.length), storage);
+  const revision = url.searchParams.get("revision");
+  const method = request.method.toUpperCase();
+
+  if (method === "GET" && !revision) {
+    return Response.json(await history.list(path));
+  }
+  if (!revision) {
+    return new Response("revision parameter is missing", { status: 400 });
+  }
+
+  try {
+    if (method === "GET") {
+      return new Response(await history.read(path, revision), {
+        status: 200,
+        headers: { "Content-Type": "application/octet-stream" },
+      });
+    }
+    if (method !== "POST") {
+      return new Response(null, { status: 405, headers: { Allow: "GET, POST" } });
+    }
+
+    const locked = await checkLocks(request, { root, storage, locks, path });
+    if (locked) {
+      return locked;
+    }
+
+    await history.restore(path, revision);
+    subscriber.publish([path]);
+    return new Response(null, {
+      status: 200,
+      headers: { ETag: await getEtag(storage, path, await storage.stat(path)) },
+    });
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return new Response(null, { status: 404 });
+    }
+    throw error;
+  }
+}
+
+/** Serves the script index as JSON, filtered by the `q` and `removed` query parameters. */
+export async function scripts(request: Request, { index }: { index: ScriptIndex }) {
+  const params = new URL(request.url).searchParams;
+  const query = params.get("q")?.toLowerCase();
+  const removed = params.get("removed");
+
+  const entries = (await index.list()).filter((entry) => {
+    const texts = [entry.header?.name, entry.header?.namespace, entry.meta?.name, entry.path];
+    const isMatching = !query || texts.some((x) => x?.toLowerCase().includes(query));
+    return isMatching && (removed === null || entry.removed === (removed === "true"));
+  });
+  return Response.json(entries);
+}
+
+/** Streams the files of live scripts as a zip archive, see {@link parseExportOptions}. */
+export async function exportLibrary(
+  request: Request,
+  { root, storage, index }: { root: string; storage: Storage; index: ScriptIndex },
+) {
+  const options = parseExportOptions(new URL(request.url).searchParams);
+  const paths = getExportPaths(await index.list(), options);
+
+  async function* readEntries() {
+    for (const path of paths) {
+      const absolutePath = resolve(root, path);
+      const stat = await statOrNull(storage, absolutePath);
+      if (!stat?.isFile) {
+        continue;
+      }
+
+      const content = new Uint8Array(
+        await new Response(await storage.read(absolutePath)).arrayBuffer(),
+      );
+      yield { name: path, content, mtime: stat.mtime ?? undefined };
+    }
+  }
+
+  return new Response(createZip(readEntries()), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": 'attachment; filename="tamperdav.zip"',
+    },
+  });
+}
+
+/** Unpacks an archive made by {@link exportLibrary} into the root, overwriting existing files. */
+export async function importLibrary(
+  request: Request,
+  { root, storage, subscriber, locks, history }: {
+    root: string;
+    storage: Storage;
+    subscriber: FsSubscriber;
+    locks?: LockManager;
+    history?: History;
+  },
+) {
+  const body = await readBody(request, MAX_IMPORT_BYTES);
+  if (!body) {
+    return new Response(`The archive is larger than ${MAX_IMPORT_BYTES} bytes`, { status: 413 });
+  }
+
+  let entries;
+  try {
+    entries = await readZip(body, { maxSize: MAX_IMPORT_EXTRACTED_BYTES });
+  } catch (error) {
+    if (error instanceof ZipError) {
+      return new Response(error.message, { status: 400 });
+    }
+    throw error;
+  }
+
+  const invalid = validateImport(entries);
+  if (invalid) {
+    return new Response(invalid, { status: 400 });
+  }
+
+  const files = [];
+  for (const entry of entries.sort(compareImportOrder)) {
+    const pathname = `/${entry.name.split("/").map(encodeURIComponent).join("/")}`;
+    const path = await resolvePath(root, pathname, storage).catch((error) => {
+      if (error instanceof ForbiddenPathError) {
+        return undefined;
+      }
+      throw error;
+    });
+    if (!path) {
+      return new Response(`Forbidden path: ${entry.name}`, { status: 400 });
+    }
+
+    const locked = await checkLocks(request, { root, storage, locks, path });
+    if (locked) {
+      return locked;
+    }
+    files.push({ path, content: entry.content });
+  }
+
+  const toName = (path: string) => relative(root, path).replaceAll(SEPARATOR, "/");
+  const written = [];
+  try {
+    for (const { path, content } of files) {
+      await history?.save(path);
+      await storage.mkdir(dirname(path), { recursive: true });
+      await storage.write(path, content);
+      written.push(path);
+    }
+  } catch (error) {
+    const failed = toName(files[written.length].path);
+    const imported = written.map(toName).join(", ") || "nothing";
+    return new Response(`Imported ${imported} before failing to write ${failed}: ${error}`, {
+      status: 500,
+    });
+  } finally {
+    subscriber.publish(written);
+  }
+
+  return Response.json(written.map(toName));
+}
+
+export async function lock(
+  request: Request,
+  { root, storage, locks }: { root: string; storage: Storage; locks: LockManager },
+) {
+  const path = await resolvePath(root, new URL(request.url).pathname, storage);
+  const timeoutSeconds = parseTimeout(request.headers.get("timeout"));
+  const body = await request.text();
+
+  if (!body.trim()) {
+    const submitted = await evaluateIfHeader(request, { root, storage, locks });
+    if (submitted instanceof Response) {
+      return submitted;
+    }
+    const refreshed = submitted
+      .map((token) => locks.refresh(token, path, timeoutSeconds))
+      .find((x) => x);
+    if (!refreshed) {
+      return new Response("No lock to refresh", { status: 412 });
+    }
+    return lockResponse(root, refreshed, 200);
+  }
+
+  let lockInfo: XmlElement;
+  try {
+    lockInfo = parseXml(body);
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) {
+      return new Response(error.message, { status: 400 });
+    }
+    throw error;
+  }
+
+  const scope = findChild(lockInfo, "lockscope")?.children[0]?.name;
+  const isWrite = !!findChild(lockInfo, "locktype")?.children.some((x) => x.name === "write");
+  const depth = getDepth(request);
+  const isValid = lockInfo.name === "lockinfo" && (scope === "exclusive" || scope === "shared") &&
+    isWrite && (depth === "0" || depth === "infinity");
+  if (!isValid) {
+    return new Response("Unsupported lock request", { status: 400 });
+  }
+
+  const stat = await statOrNull(storage, path);
+  if (!stat && !(await statOrNull(storage, dirname(path)))?.isDirectory) {
+    return new Response("Parent collection does not exist", { status: 409 });
+  }
+
+  const owner = findChild(lockInfo, "owner");
+  const created = locks.lock({
+    path,
+    scope,
+    depth,
+    owner: owner && serializeContent(owner),
+    timeoutSeconds,
+  });
+  if (!created) {
+    return xmlResponse(buildConditionXml("no-conflicting-lock"), 423);
+  }
+
+  // Locking an unmapped URL creates an empty resource, as RFC 4918 section 9.10.4 says.
+  if (!stat) {
+    await storage.write(path, new Uint8Array());
+  }
+  return lockResponse(root, created, stat ? 200 : 201);
+}
+
+export async function unlock(
+  request: Request,
+  { root, storage, locks }: { root: string; storage: Storage; locks: LockManager },
+) {
+  const path = await resolvePath(root, new URL(request.url).pathname, storage);
+  const token = request.headers.get("lock-token")?.trim().replace(/^<|>$/g, "");
+  if (!token) {
+    return new Response("Lock-Token header is missing", { status: 400 });
+  }
+
+  if (!locks.unlock(token, path)) {
+    return xmlResponse(
+      buildConditionXml("lock-token-matches-request-uri"),
+      409,
+    );
+  }
+  return new Response(null, { status: 204 });
+}
+
 export async function subscribe(
   request: Request,
-  { root, subscriber, metaTouch }: { root: string; subscriber: FsSubscriber; metaTouch: boolean },
+  { root, storage, subscriber, metaTouch, client }: {
+    root: string;
+    storage: Storage;
+    subscriber: FsSubscriber;
+    metaTouch: boolean;
+    client: ClientState;
+  },
 ) {
   const now = new Date();
 
   const subscription = toSubscription(request);
+  const target = await resolvePath(root, new URL(request.url).pathname, storage);
+  subscription.path = relative(root, target).replace(/\\/g, "/") || ".";
+
+  // Changes the client missed since its cursor can be answered right away.
+  const since = getCursor(request);
+  const missed = since === undefined
+    ? undefined
+    : subscriber.changesSince(since, subscription.path);
 
   // I don't know why but sometimes tampermonkey sends SUBSCRIBE and PROPFIND request in a very short time.
-  const lastDiffTime = now.getTime() - (lastSubscribeRequestTime?.getTime() ?? 0);
-  lastSubscribeRequestTime = now;
-  if (subscribeImmediateCount > 0) {
+  const lastDiffTime = now.getTime() - (client.lastSubscribeTime?.getTime() ?? 0);
+  client.lastSubscribeTime = now;
+  if (missed?.size) {
     subscription.timeoutSeconds = 0;
-    subscribeImmediateCount--;
-  } else if (lastDiffTime >= 11000) {
-    return await propFind(request, root);
+  } else if (client.immediateCount > 0) {
+    subscription.timeoutSeconds = 0;
+    client.immediateCount--;
+  } else if (lastDiffTime >= 11000 && !missed) {
+    const cursor = subscriber.cursor;
+    return await listResources({ root, storage, target, depth: getDepth(request), cursor });
   }
 
   try {
-    let relatives: string[] = [];
-    do {
+    let relatives: string[] = [...missed ?? []];
+    while (!relatives.length || relatives.every((x) => x.endsWith(".meta.json"))) {
       if (subscription.timeoutSeconds > 0) {
-        const lastDiffTime = now.getTime() - (lastSubscribeRequestTime?.getTime() ?? 0);
+        const lastDiffTime = now.getTime() - (client.lastSubscribeTime?.getTime() ?? 0);
         subscription.timeoutSeconds = Math.floor(
           Math.max(0, Math.min(10 - lastDiffTime / 1000, 10)),
         );
@@ -189,7 +813,8 @@ export async function subscribe(
       if (relatives.length === 0) {
         return new Response(null, { status: 204 });
       }
-    } while (relatives.every((x) => x.endsWith(".meta.json")));
+    }
+    const cursor = subscriber.cursor;
 
     if (metaTouch) {
       const metas = await Promise.all(relatives.map(touchMeta));
@@ -197,9 +822,9 @@ export async function subscribe(
     }
 
     const absolutes = relatives.map((x) => resolve(root, x));
-    const xml = await arrayToXml({ root, files: absolutes });
+    const xml = await arrayToXml({ root, storage, files: absolutes, cursor });
 
-    subscribeImmediateCount = TAMPERMONKEY_VOID_SUBSCRIBE_COUNT;
+    client.onDelivered();
     return new Response(xml, {
       status: 207,
       headers: { "Content-Type": "application/xml; charset=utf-8" },
@@ -215,7 +840,7 @@ export async function subscribe(
     try {
       const meta = relativePath.replace(".user.js", ".meta.json");
       const absolute = resolve(root, meta);
-      await Deno.utime(absolute, now, now);
+      await storage.setModified(absolute, now);
       return [meta];
     } catch (_error) {
       return [];
@@ -225,7 +850,11 @@ export async function subscribe(
 
 export async function editor(
   request: Request,
-  { editor, root }: { root: string; editor: string | boolean | undefined },
+  { editor, root, storage }: {
+    root: string;
+    storage: Storage;
+    editor: string | boolean | undefined;
+  },
 ) {
   if (!editor) {
     return new Response(null, { status: 501 });
@@ -239,12 +868,11 @@ export async function editor(
   }
 
   const url = new URL(request.url);
-  const relativePath = url.pathname;
-  const path = join(root, relativePath);
+  const path = await resolvePath(root, url.pathname, storage);
 
   try {
-    await Deno.stat(path);
-    open(resolve(path), { app: editor });
+    await storage.stat(path);
+    open(path, { app: editor });
     return new Response(null, {
       status: 302,
       headers: {
@@ -258,3 +886,149 @@ export async function editor(
     throw error;
   }
 }
+
+/** @returns undefined if the body is larger than `maxBytes`. */
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array | undefined> {
+  if (Number(request.headers.get("content-length")) > maxBytes) {
+    await request.body?.cancel();
+    return;
+  }
+
+  const chunks = [];
+  let length = 0;
+  for await (const chunk of request.body ?? []) {
+    length += chunk.length;
+    if (length > maxBytes) {
+      return;
+    }
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/** Reads the `Cursor` header Tampermonkey sends to sync incrementally. */
+function getCursor(request: Request) {
+  const cursor = Number(request.headers.get("cursor") ?? NaN);
+  return Number.isSafeInteger(cursor) ? cursor : undefined;
+}
+
+/** RFC 4918 treats a missing Depth header as infinity. */
+function getDepth(request: Request) {
+  return request.headers.get("depth")?.toLowerCase() ?? "infinity";
+}
+
+async function statOrNull(storage: Storage, path: string) {
+  try {
+    return await storage.stat(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Requires the `If` header to hold, and to carry the token of every exclusive lock and of at least
+ * one shared lock that covers `path`, and also of those below it if `recursive`.
+ * @returns a 400, 412 or 423 response if it doesn't, or undefined.
+ */
+async function checkLocks(
+  request: Request,
+  { root, storage, locks, path, recursive }: {
+    root: string;
+    storage: Storage;
+    locks?: LockManager;
+    path: string;
+    recursive?: boolean;
+  },
+): Promise<Response | undefined> {
+  const tokens = await evaluateIfHeader(request, { root, storage, locks });
+  if (tokens instanceof Response) {
+    return tokens;
+  }
+  if (!locks) {
+    return;
+  }
+
+  const covering = [...locks.getLocks(path), ...(recursive ? locks.getLocksWithin(path) : [])];
+  const exclusive = covering.filter((x) => x.scope === "exclusive");
+  const shared = covering.filter((x) => x.scope === "shared");
+
+  const unsatisfied = exclusive.find((x) => !tokens.includes(x.token)) ??
+    (shared.some((x) => tokens.includes(x.token)) ? undefined : shared[0]);
+  if (!unsatisfied) {
+    return;
+  }
+
+  return xmlResponse(
+    buildConditionXml("lock-token-submitted", element("d:href", toHref(root, unsatisfied.path))),
+    423,
+  );
+}
+
+/**
+ * Evaluates the `If` header, which holds if any of its lists does, that is if all the conditions
+ * of the list hold for its resource.
+ * @returns the lock tokens submitted by the lists which hold, or a response to answer with.
+ */
+async function evaluateIfHeader(
+  request: Request,
+  { root, storage, locks }: { root: string; storage: Storage; locks?: LockManager },
+): Promise<string[] | Response> {
+  const lists = parseIfHeader(request.headers.get("if"));
+  if (!lists) {
+    return new Response("Malformed If header", { status: 400 });
+  }
+  if (!lists.length) {
+    return [];
+  }
+
+  const tokens: string[] = [];
+  let holds = false;
+  for (const { resource, conditions } of lists) {
+    // Untagged lists are about the request target.
+    const path = await resolvePath(
+      root,
+      new URL(resource ?? request.url, request.url).pathname,
+      storage,
+    ).catch(() => undefined);
+    const current = path && conditions.some((x) => "etag" in x)
+      ? await validate(storage, path)
+      : null;
+    // Locks below a collection count too, so that a recursive request can submit them untagged.
+    const lockTokens = path && locks
+      ? [...locks.getLocks(path), ...locks.getLocksWithin(path)].map((x) => x.token)
+      : [];
+
+    const isMet = (condition: IfCondition) =>
+      "token" in condition
+        ? lockTokens.includes(condition.token)
+        : condition.etag.replace(/^W\//, "") === current?.etag;
+    if (conditions.every((x) => isMet(x) !== x.not)) {
+      holds = true;
+      tokens.push(...conditions.flatMap((x) => "token" in x && !x.not ? [x.token] : []));
+    }
+  }
+  return holds ? tokens : new Response(null, { status: 412 });
+}
+
+function lockResponse(root: string, lock: Lock, status: number) {
+  const response = xmlResponse(buildLockResponseXml(root, lock), status);
+  response.headers.set("Lock-Token", `<${lock.token}>`);
+  return response;
+}
+
+function xmlResponse(xml: string, status: number) {
+  return new Response(xml, {
+    status,
+    headers: { "Content-Type": "application/xml; charset=utf-8" },
+  });
+}
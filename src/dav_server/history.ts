@@ -0,0 +1,122 @@
+import { join, relative } from "jsr:@std/path";
+import type { Storage } from "../storage.ts";
+import { METADATA_DIRECTORY } from "./paths.ts";
+
+/** Path prefix of the history endpoint. */
+export const HISTORY_PATH = "/_history";
+
+export type Revision = {
+  /** Epoch milliseconds of when it was replaced. */
+  id: string;
+  size: number;
+};
+
+export type HistoryRetention = {
+  /** Revisions kept per file. */
+  maxCount: number;
+  /** Revisions older than this are dropped if given. */
+  maxAgeDays?: number;
+};
+
+/**
+ * Keeps previous contents of files before PUT, DELETE or an overwriting MOVE or COPY replaces them,
+ * under the metadata directory of the root.
+ */
+export class History {
+  readonly #root: string;
+  readonly #storage: Storage;
+  readonly #retention: HistoryRetention;
+
+  constructor(root: string, storage: Storage, retention: HistoryRetention) {
+    this.#root = root;
+    this.#storage = storage;
+    this.#retention = retention;
+  }
+
+  /** Saves the current content of `path`, or of every file below it. Missing paths are ignored. */
+  async save(path: string) {
+    const stat = await this.#storage.stat(path).catch(() => null);
+    if (!stat) {
+      return;
+    }
+    if (!stat.isDirectory) {
+      await this.#saveFile(path);
+      return;
+    }
+
+    for await (const descendant of this.#storage.list(path, { maxDepth: Infinity })) {
+      if ((await this.#storage.stat(descendant)).isFile) {
+        await this.#saveFile(descendant);
+      }
+    }
+  }
+
+  /** @returns revisions of `path`, the newest first. */
+  async list(path: string): Promise<Revision[]> {
+    const directory = this.#getDirectory(path);
+    const revisions: Revision[] = [];
+    try {
+      for await (const entry of this.#storage.list(directory, { maxDepth: 1 })) {
+        const id = relative(directory, entry);
+        if (isRevisionId(id)) {
+          revisions.push({ id, size: (await this.#storage.stat(entry)).size });
+        }
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return [];
+      }
+      throw error;
+    }
+    return revisions.sort((a, b) => Number(b.id) - Number(a.id));
+  }
+
+  /** @throws {Deno.errors.NotFound} if there is no such revision. */
+  async read(path: string, id: string): Promise<ReadableStream<Uint8Array>> {
+    if (!isRevisionId(id)) {
+      throw new Deno.errors.NotFound(id);
+    }
+    return await this.#storage.read(join(this.#getDirectory(path), id));
+  }
+
+  /** Replaces `path` with a revision, keeping the current content as another revision. */
+  async restore(path: string, id: string) {
+    // Read it up front, as saving the current content may prune the revision.
+    const content = await new Response(await this.read(path, id)).bytes();
+    await this.save(path);
+    await this.#storage.write(path, content);
+  }
+
+  async #saveFile(path: string) {
+    const directory = this.#getDirectory(path);
+    await this.#storage.mkdir(directory, { recursive: true });
+
+    let id = Date.now();
+    while (await this.#storage.stat(join(directory, `${id}`)).catch(() => null)) {
+      id++;
+    }
+    await this.#storage.copy(path, join(directory, `${id}`));
+    await this.#prune(path);
+  }
+
+  async #prune(path: string) {
+    const { maxCount, maxAgeDays } = this.#retention;
+    const oldest = maxAgeDays === undefined ? 0 : Date.now() - maxAgeDays * 24 * 3600 * 1000;
+
+    const revisions = await this.list(path);
+    const expired = revisions.filter((x, index) => index >= maxCount || Number(x.id) < oldest);
+    for (const { id } of expired) {
+      await this.#storage.remove(join(this.#getDirectory(path), id));
+    }
+  }
+
+  /** Flattens the relative path into a single directory name so that files and folders never clash. */
+  #getDirectory(path: string) {
+    const key = relative(this.#root, path).replace(/\\/g, "/");
+    return join(this.#root, METADATA_DIRECTORY, "history", encodeURIComponent(key));
+  }
+}
+
+function isRevisionId(id: string) {
+  return /^\d+$/.test(id);
+}
@@ -0,0 +1,195 @@
+import { SEPARATOR } from "jsr:@std/path";
+
+export type LockScope = "exclusive" | "shared";
+
+export type Lock = {
+  token: string;
+  /** Absolute path of the lock root. */
+  path: string;
+  scope: LockScope;
+  depth: "0" | "infinity";
+  /** Serialized content of the `owner` element the client supplied. */
+  owner?: string;
+  timeoutSeconds: number;
+  /** Epoch milliseconds. */
+  expiresAt: number;
+};
+
+type LockRequest = Pick<Lock, "path" | "scope" | "depth" | "owner"> & {
+  /** Server default if omitted. */
+  timeoutSeconds?: number;
+};
+
+const DEFAULT_TIMEOUT_SECONDS = 3600;
+const MAX_TIMEOUT_SECONDS = 7 * 24 * 3600;
+
+/** In-memory write lock table for WebDAV class 2 compliance. */
+export class LockManager {
+  readonly #locks = new Map<string, Lock>();
+
+  /** @returns the new lock, or undefined if it conflicts with an existing one. */
+  lock({ path, scope, depth, owner, timeoutSeconds }: LockRequest): Lock | undefined {
+    const overlapping = [
+      ...this.getLocks(path),
+      ...(depth === "infinity" ? this.getLocksWithin(path) : []),
+    ];
+    const isConflicting = overlapping.some((x) => scope === "exclusive" || x.scope === "exclusive");
+    if (isConflicting) {
+      return;
+    }
+
+    const seconds = clampTimeout(timeoutSeconds);
+    const lock = {
+      token: `opaquelocktoken:${crypto.randomUUID()}`,
+      path,
+      scope,
+      depth,
+      owner,
+      timeoutSeconds: seconds,
+      expiresAt: Date.now() + seconds * 1000,
+    };
+    this.#locks.set(lock.token, lock);
+    return lock;
+  }
+
+  /** Extends a lock which applies to `path`. */
+  refresh(token: string, path: string, timeoutSeconds?: number): Lock | undefined {
+    const lock = this.getLocks(path).find((x) => x.token === token);
+    if (!lock) {
+      return;
+    }
+
+    lock.timeoutSeconds = clampTimeout(timeoutSeconds);
+    lock.expiresAt = Date.now() + lock.timeoutSeconds * 1000;
+    return lock;
+  }
+
+  /** Removes a lock which applies to `path`. */
+  unlock(token: string, path: string): boolean {
+    const lock = this.getLocks(path).find((x) => x.token === token);
+    return !!lock && this.#locks.delete(lock.token);
+  }
+
+  /** Drops locks rooted at `path` or below, e.g. after the resource is deleted. */
+  release(path: string) {
+    for (const lock of this.getLocksWithin(path)) {
+      this.#locks.delete(lock.token);
+    }
+  }
+
+  /** Locks on `path` itself or inherited from an ancestor with infinite depth. */
+  getLocks(path: string): Lock[] {
+    return this.#getActiveLocks().filter((lock) =>
+      lock.path === path || (lock.depth === "infinity" && isDescendant(lock.path, path))
+    );
+  }
+
+  /** Locks rooted at `path` or below it. */
+  getLocksWithin(path: string): Lock[] {
+    return this.#getActiveLocks().filter((lock) =>
+      lock.path === path || isDescendant(path, lock.path)
+    );
+  }
+
+  #getActiveLocks() {
+    const now = Date.now();
+    for (const [token, lock] of this.#locks) {
+      if (lock.expiresAt <= now) {
+        this.#locks.delete(token);
+      }
+    }
+    return [...this.#locks.values()];
+  }
+}
+
+/**
+ * Parses a `Timeout` header such as `Second-600, Infinite`.
+ * @returns undefined for the server default.
+ */
+export function parseTimeout(header: string | null): number | undefined {
+  for (const candidate of header?.split(",") ?? []) {
+    const value = candidate.trim();
+    if (value.toLowerCase() === "infinite") {
+      return MAX_TIMEOUT_SECONDS;
+    }
+    const seconds = Number(value.match(/^Second-(\d+)$/i)?.[1]);
+    if (seconds > 0) {
+      return seconds;
+    }
+  }
+}
+
+/** A state token or entity tag condition of an `If` header, negated by `Not`. */
+export type IfCondition = { not: boolean } & ({ token: string } | { etag: string });
+
+/** Conditions which all have to hold for the tagged resource, or for the request target. */
+export type IfList = { resource?: string; conditions: IfCondition[] };
+
+/** Matches the next part of an `If` header: a tag or state token, an entity tag, or a keyword. */
+const IF_PART_PATTERN = /\s*(<[^>]*>|\[(?:W\/)?"[^"]*"\]|\(|\)|not(?=[\s<[]))/iy;
+
+/**
+ * Parses an `If` header of RFC 4918 section 10.4.
+ * @returns the lists in order, none without the header, or undefined if it's malformed.
+ */
+export function parseIfHeader(header: string | null): IfList[] | undefined {
+  const lists: IfList[] = [];
+  let resource: string | undefined;
+  let isTagPending = false;
+  let list: IfList | undefined;
+  let not = false;
+
+  let index = 0;
+  while (header?.slice(index).trim()) {
+    IF_PART_PATTERN.lastIndex = index;
+    const part = IF_PART_PATTERN.exec(header)?.[1];
+    if (!part) {
+      return;
+    }
+    index = IF_PART_PATTERN.lastIndex;
+
+    if (part === "(") {
+      if (list) {
+        return;
+      }
+      list = { resource, conditions: [] };
+    } else if (part === ")") {
+      if (!list?.conditions.length || not) {
+        return;
+      }
+      lists.push(list);
+      list = undefined;
+      isTagPending = false;
+    } else if (part.toLowerCase() === "not") {
+      if (!list || not) {
+        return;
+      }
+      not = true;
+    } else if (part.startsWith("[")) {
+      if (!list) {
+        return;
+      }
+      list.conditions.push({ not, etag: part.slice(1, -1) });
+      not = false;
+    } else if (list) {
+      list.conditions.push({ not, token: part.slice(1, -1) });
+      not = false;
+    } else {
+      // A resource tag has to be followed by a list.
+      if (isTagPending) {
+        return;
+      }
+      resource = part.slice(1, -1);
+      isTagPending = true;
+    }
+  }
+  return list || isTagPending ? undefined : lists;
+}
+
+function clampTimeout(timeoutSeconds?: number) {
+  return Math.min(timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS, MAX_TIMEOUT_SECONDS);
+}
+
+function isDescendant(ancestor: string, path: string) {
+  return path.startsWith(ancestor.endsWith(SEPARATOR) ? ancestor : `${ancestor}${SEPARATOR}`);
+}
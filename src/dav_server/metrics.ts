@@ -0,0 +1,110 @@
+/** Path of the Prometheus metrics. */
+export const METRICS_PATH = "/_metrics";
+
+/** Upper bounds of the request duration histogram, in seconds. */
+const DURATION_BUCKETS = [0.005, 0.025, 0.1, 0.5, 1, 5, 15, 60];
+
+/** Methods labeled by name. Others are labeled `OTHER`, so that clients can't add labels. */
+const KNOWN_METHODS = [
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "POST",
+  "DELETE",
+  "PROPFIND",
+  "PROPPATCH",
+  "MKCOL",
+  "MOVE",
+  "COPY",
+  "LOCK",
+  "UNLOCK",
+  "SUBSCRIBE",
+  "EDITOR",
+];
+
+type DurationHistogram = { buckets: number[]; sum: number; count: number };
+
+/** Request statistics since the start, in the Prometheus text format. */
+export class Metrics {
+  /** Keyed by JSON of `[method, status]`. */
+  readonly #requests = new Map<string, number>();
+  readonly #durations = new Map<string, DurationHistogram>();
+  #putBytes = 0;
+
+  /** @param requestBytes bytes of the request body read while handling it */
+  record({ method: requestMethod, status, durationMs, requestBytes }: {
+    method: string;
+    status: number;
+    durationMs: number;
+    requestBytes: number;
+  }) {
+    const method = KNOWN_METHODS.includes(requestMethod) ? requestMethod : "OTHER";
+    const key = JSON.stringify([method, status]);
+    this.#requests.set(key, (this.#requests.get(key) ?? 0) + 1);
+
+    let histogram = this.#durations.get(method);
+    if (!histogram) {
+      histogram = { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.#durations.set(method, histogram);
+    }
+    const seconds = durationMs / 1000;
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        histogram.buckets[index]++;
+      }
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+
+    if (method === "PUT" && status < 300) {
+      this.#putBytes += requestBytes;
+    }
+  }
+
+  render({ subscriptions, watchers }: { subscriptions: number; watchers: number }): string {
+    const lines = [
+      "# HELP tamperdav_requests_total Requests by method and status.",
+      "# TYPE tamperdav_requests_total counter",
+    ];
+    for (const [key, count] of this.#requests) {
+      const [method, status] = JSON.parse(key);
+      lines.push(`tamperdav_requests_total{method=${quote(method)},status="${status}"} ${count}`);
+    }
+
+    lines.push(
+      "# HELP tamperdav_request_duration_seconds Time until the response is sent, by method.",
+      "# TYPE tamperdav_request_duration_seconds histogram",
+    );
+    for (const [method, { buckets, sum, count }] of this.#durations) {
+      const label = `method=${quote(method)}`;
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          `tamperdav_request_duration_seconds_bucket{${label},le="${bound}"} ${buckets[index]}`,
+        );
+      });
+      lines.push(
+        `tamperdav_request_duration_seconds_bucket{${label},le="+Inf"} ${count}`,
+        `tamperdav_request_duration_seconds_sum{${label}} ${sum}`,
+        `tamperdav_request_duration_seconds_count{${label}} ${count}`,
+      );
+    }
+
+    lines.push(
+      "# HELP tamperdav_put_bytes_total Bytes received by successful PUT requests.",
+      "# TYPE tamperdav_put_bytes_total counter",
+      `tamperdav_put_bytes_total ${this.#putBytes}`,
+      "# HELP tamperdav_subscriptions Long-poll subscriptions waiting for changes.",
+      "# TYPE tamperdav_subscriptions gauge",
+      `tamperdav_subscriptions ${subscriptions}`,
+      "# HELP tamperdav_watchers File system watchers.",
+      "# TYPE tamperdav_watchers gauge",
+      `tamperdav_watchers ${watchers}`,
+    );
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+function quote(value: string) {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,74 @@
+import { join } from "jsr:@std/path";
+import { assertEquals, assertRejects } from "../../tool/deps.ts";
+import { FsStorage } from "../storage.ts";
+import { ForbiddenPathError, resolvePath } from "./paths.ts";
+
+Deno.test("Given a root directory", async (test) => {
+  const root = await Deno.realPath(await Deno.makeTempDir());
+  const outside = await Deno.realPath(await Deno.makeTempDir());
+  await Deno.symlink(outside, join(root, "link"));
+  const storage = new FsStorage();
+
+  await test.step("when resolve a plain path", async (test) => {
+    const path = await resolvePath(root, "/Tampermonkey/sync/a.user.js", storage);
+
+    await test.step("it should be joined onto the root", () => {
+      assertEquals(path, join(root, "Tampermonkey", "sync", "a.user.js"));
+    });
+  });
+
+  await test.step("when resolve percent-encoded names", async (test) => {
+    const path = await resolvePath(root, "/my%20scripts/%ED%95%9C.user.js", storage);
+
+    await test.step("it should be decoded", () => {
+      assertEquals(path, join(root, "my scripts", "한.user.js"));
+    });
+  });
+
+  await test.step("when resolve the root itself", async (test) => {
+    const path = await resolvePath(root, "/", storage);
+
+    await test.step("it should be the root", () => {
+      assertEquals(path, root);
+    });
+  });
+
+  await test.step({
+    name: "when resolve a name with a colon",
+    // Only Windows reads it as a drive letter.
+    ignore: Deno.build.os === "windows",
+    fn: async (test) => {
+      const path = await resolvePath(root, "/a:b.user.js", storage);
+
+      await test.step("it should be kept as is", () => {
+        assertEquals(path, join(root, "a:b.user.js"));
+      });
+    },
+  });
+
+  const trickyPaths = [
+    "/%2e%2e/etc/passwd",
+    "/a/%2E%2E/%2E%2E/etc/passwd",
+    "/..%2f..%2fetc/passwd",
+    "/..%5c..%5cetc%5cpasswd",
+    "/a%5c..%5c..%5c",
+    "/%2Fetc%2Fpasswd",
+    "/C:%5CWindows",
+    "/a%00.user.js",
+    "/%E0%A4%A",
+    "/link/secret",
+    "/link",
+  ];
+  for (const pathname of trickyPaths) {
+    await test.step(`when resolve ${pathname}`, async (test) => {
+      await test.step("it should be rejected", async () => {
+        await assertRejects(() => resolvePath(root, pathname, storage), ForbiddenPathError);
+      });
+    });
+  }
+
+  await Promise.all([
+    Deno.remove(root, { recursive: true }),
+    Deno.remove(outside, { recursive: true }),
+  ]);
+});
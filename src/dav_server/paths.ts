@@ -0,0 +1,107 @@
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  SEPARATOR,
+  SEPARATOR_PATTERN,
+} from "jsr:@std/path";
+import { escape } from "jsr:@std/regexp/escape";
+import type { Storage } from "../storage.ts";
+
+const isWindows = Deno.build.os === "windows";
+
+/** Directory under the root where the server keeps its own data, hidden from clients. */
+export const METADATA_DIRECTORY = ".tamperdav";
+
+/** Matches {@link METADATA_DIRECTORY} of `root` and paths below it, to skip them in listings. */
+export function getMetadataPattern(root: string): RegExp {
+  return new RegExp(`^${escape(join(root, METADATA_DIRECTORY))}(${SEPARATOR_PATTERN.source}|$)`);
+}
+
+/** Thrown when a request path would resolve outside of the served root. */
+export class ForbiddenPathError extends Error {
+  constructor(readonly pathname: string) {
+    super(`Forbidden path: ${pathname}`);
+    this.name = "ForbiddenPathError";
+  }
+}
+
+/**
+ * Maps a URL pathname onto an absolute path inside `root`.
+ *
+ * Every segment is percent-decoded once, and the result is rejected with {@link ForbiddenPathError}
+ * if it escapes `root`, either literally or through symbolic links, or if it points into
+ * {@link METADATA_DIRECTORY}.
+ */
+export async function resolvePath(
+  root: string,
+  pathname: string,
+  storage: Storage,
+): Promise<string> {
+  const segments = decodeSegments(pathname);
+  if (segments[0]?.toLowerCase() === METADATA_DIRECTORY) {
+    throw new ForbiddenPathError(pathname);
+  }
+
+  const path = join(root, ...segments);
+  if (!isInside(root, path)) {
+    throw new ForbiddenPathError(pathname);
+  }
+
+  const [realRoot, realPath] = await Promise.all([
+    storage.realPath(root),
+    realPathOfExisting(storage, path),
+  ]);
+  if (!isInside(realRoot, realPath)) {
+    throw new ForbiddenPathError(pathname);
+  }
+
+  return path;
+}
+
+function decodeSegments(pathname: string) {
+  const segments = [];
+  for (const rawSegment of pathname.split("/")) {
+    let segment: string;
+    try {
+      segment = decodeURIComponent(rawSegment);
+    } catch {
+      throw new ForbiddenPathError(pathname);
+    }
+
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    // Separators, parent references and drive letters must not be smuggled in encoded form.
+    const isTricky = segment === ".." || /[\\/\0]/.test(segment) ||
+      (isWindows && /^[a-z]:/i.test(segment));
+    if (isTricky) {
+      throw new ForbiddenPathError(pathname);
+    }
+    segments.push(segment);
+  }
+  return segments;
+}
+
+/** Whether `path` is `root` or below it, judging by the names only. */
+export function isInside(root: string, path: string) {
+  const relativePath = relative(root, path);
+  return relativePath === "" ||
+    (relativePath !== ".." && !relativePath.startsWith(`..${SEPARATOR}`) &&
+      !isAbsolute(relativePath));
+}
+
+/** Resolves symbolic links of the deepest existing ancestor, as the target may not exist yet. */
+async function realPathOfExisting(storage: Storage, path: string): Promise<string> {
+  try {
+    return await storage.realPath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if (!(error instanceof Deno.errors.NotFound) || parent === path) {
+      throw error;
+    }
+    return join(await realPathOfExisting(storage, parent), basename(path));
+  }
+}
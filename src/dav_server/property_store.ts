@@ -0,0 +1,145 @@
+import { join, relative } from "jsr:@std/path";
+import type { PropertyName } from "../array_to_xml.ts";
+import type { Storage } from "../storage.ts";
+import { METADATA_DIRECTORY } from "./paths.ts";
+
+export type DeadProperty = PropertyName & {
+  /** Serialized content of the property element. */
+  value: string;
+};
+
+export type PropertyOperation =
+  | { type: "set"; property: DeadProperty }
+  | { type: "remove"; property: PropertyName };
+
+/**
+ * Keeps properties set by PROPPATCH in a JSON file under the metadata directory of the root,
+ * keyed by the path relative to the root.
+ */
+export class PropertyStore {
+  readonly #root: string;
+  readonly #storage: Storage;
+  readonly #file: string;
+  #properties?: Promise<Map<string, DeadProperty[]>>;
+  #saving = Promise.resolve();
+
+  constructor(root: string, storage: Storage) {
+    this.#root = root;
+    this.#storage = storage;
+    this.#file = join(root, METADATA_DIRECTORY, "properties.json");
+  }
+
+  /** @param path absolute path */
+  async get(path: string): Promise<DeadProperty[]> {
+    const properties = await this.#load();
+    return properties.get(this.#toKey(path)) ?? [];
+  }
+
+  /** Applies operations in order. */
+  async patch(path: string, operations: PropertyOperation[]) {
+    const properties = await this.#load();
+    const key = this.#toKey(path);
+
+    let current = properties.get(key) ?? [];
+    for (const { type, property } of operations) {
+      current = current.filter((x) => !isSameName(x, property));
+      if (type === "set") {
+        current.push(property);
+      }
+    }
+
+    if (current.length) {
+      properties.set(key, current);
+    } else {
+      properties.delete(key);
+    }
+    await this.#save();
+  }
+
+  /** Moves properties of `from` and its descendants. */
+  async move(from: string, to: string) {
+    await this.#transfer(from, to, { keepSource: false });
+  }
+
+  /** Copies properties of `from` and its descendants. */
+  async copy(from: string, to: string) {
+    await this.#transfer(from, to, { keepSource: true });
+  }
+
+  /** Forgets properties of `path` and its descendants. */
+  async remove(path: string) {
+    const properties = await this.#load();
+    const key = this.#toKey(path);
+
+    let isChanged = false;
+    for (const existing of [...properties.keys()]) {
+      if (isSameOrDescendant(key, existing)) {
+        properties.delete(existing);
+        isChanged = true;
+      }
+    }
+
+    if (isChanged) {
+      await this.#save();
+    }
+  }
+
+  async #transfer(from: string, to: string, { keepSource }: { keepSource: boolean }) {
+    const properties = await this.#load();
+    const fromKey = this.#toKey(from);
+    const toKey = this.#toKey(to);
+
+    for (const existing of [...properties.keys()]) {
+      if (isSameOrDescendant(toKey, existing)) {
+        properties.delete(existing);
+      }
+    }
+
+    const transferred = [...properties].filter(([key]) => isSameOrDescendant(fromKey, key));
+    for (const [key, value] of transferred) {
+      if (!keepSource) {
+        properties.delete(key);
+      }
+      properties.set(`${toKey}${key.slice(fromKey.length)}`, structuredClone(value));
+    }
+
+    await this.#save();
+  }
+
+  #load() {
+    this.#properties ??= this.#storage.read(this.#file).then(
+      async (stream) => new Map(Object.entries(await new Response(stream).json())),
+      (error) => {
+        if (error instanceof Deno.errors.NotFound) {
+          return new Map();
+        }
+        throw error;
+      },
+    );
+    return this.#properties;
+  }
+
+  async #save() {
+    const properties = await this.#load();
+    const json = JSON.stringify(Object.fromEntries(properties), null, 2);
+
+    // Serialize writes so that an older snapshot never overwrites a newer one.
+    this.#saving = this.#saving.catch(() => {}).then(async () => {
+      await this.#storage.mkdir(join(this.#root, METADATA_DIRECTORY), { recursive: true });
+      await this.#storage.write(this.#file, new TextEncoder().encode(json));
+    });
+    await this.#saving;
+  }
+
+  #toKey(path: string) {
+    return relative(this.#root, path).replace(/\\/g, "/");
+  }
+}
+
+function isSameName(a: PropertyName, b: PropertyName) {
+  return a.namespace === b.namespace && a.name === b.name;
+}
+
+function isSameOrDescendant(ancestor: string, key: string) {
+  return ancestor === "" || key === ancestor || key.startsWith(`${ancestor}/`);
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "../../tool/deps.ts";
+import { LoginThrottle, RateLimiter } from "./rate_limit.ts";
+
+Deno.test("Given a login throttle allowing 2 failures", async (test) => {
+  const throttle = new LoginThrottle({ maxFailures: 2, lockoutSeconds: 10, maxLockoutSeconds: 30 });
+
+  await test.step("when an address keeps failing", async (test) => {
+    const lockouts = [1, 2, 3, 4, 5].map(() => throttle.fail("10.0.0.1", 0));
+
+    await test.step("should lock it out for longer each time up to the limit", () => {
+      assertEquals(lockouts, [0, 0, 10, 20, 30]);
+      assertEquals(throttle.getRetryAfter("10.0.0.1", 29_500), 1);
+      assertEquals(throttle.getRetryAfter("10.0.0.2", 0), 0);
+    });
+  });
+
+  await test.step("when it succeeds", async (test) => {
+    throttle.succeed("10.0.0.1");
+
+    await test.step("should forget the failures", () => {
+      assertEquals(throttle.getRetryAfter("10.0.0.1", 0), 0);
+      assertEquals(throttle.fail("10.0.0.1", 0), 0);
+    });
+  });
+});
+
+Deno.test("Given a login throttle allowing 1 failure", async (test) => {
+  const throttle = new LoginThrottle({ maxFailures: 1, lockoutSeconds: 10, maxLockoutSeconds: 30 });
+  const verify = (isValid: boolean) => async () => {
+    await Promise.resolve();
+    return isValid;
+  };
+
+  await test.step("when a client sends right credentials in parallel", async (test) => {
+    const verdicts = await Promise.all([1, 2, 3].map(() => throttle.attempt("a", verify(true))));
+
+    await test.step("should accept all of them", () => {
+      assertEquals(verdicts.map((x) => x.type), ["accepted", "accepted", "accepted"]);
+    });
+  });
+
+  await test.step("when a client sends wrong credentials in parallel", async (test) => {
+    const verdicts = await Promise.all([1, 2, 3].map(() => throttle.attempt("b", verify(false))));
+
+    await test.step("should lock it out before checking the rest", () => {
+      assertEquals(verdicts.map((x) => x.type), ["rejected", "rejected", "locked"]);
+    });
+  });
+});
+
+Deno.test("Given a rate limiter of 60 requests per minute with burst 2", async (test) => {
+  const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 2 });
+
+  await test.step("when a client sends 3 requests at once", async (test) => {
+    const results = [1, 2, 3].map(() => limiter.take("a", 0));
+
+    await test.step("should ask the third to retry after a second", () => {
+      assertEquals(results, [0, 0, 1]);
+      assertEquals(limiter.take("b", 0), 0);
+      assertEquals(limiter.take("a", 1000), 0);
+    });
+  });
+});
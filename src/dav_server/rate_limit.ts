@@ -0,0 +1,147 @@
+/** Entries idle for this long are forgotten. */
+const IDLE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+export type LockoutOptions = {
+  /** Failed attempts allowed before the first lockout. */
+  maxFailures: number;
+  /** Length of the first lockout, doubled by each further failure. */
+  lockoutSeconds: number;
+  maxLockoutSeconds: number;
+};
+
+type FailureRecord = { failures: number; lockedUntil: number; lastSeen: number };
+
+/** Verdict of {@link LoginThrottle.attempt}, with the seconds to wait if it wasn't accepted. */
+export type LoginVerdict =
+  | { type: "accepted" }
+  | { type: "rejected"; lockoutSeconds: number }
+  | { type: "locked"; retryAfter: number };
+
+/**
+ * Locks out clients, like an address trying a user name, which keep sending wrong credentials,
+ * for exponentially longer.
+ */
+export class LoginThrottle {
+  readonly #options: LockoutOptions;
+  readonly #records = new Map<string, FailureRecord>();
+  /** The last attempt queued for each client. */
+  readonly #pending = new Map<string, Promise<void>>();
+
+  constructor(options: LockoutOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Verifies an attempt once the previous one of the client is decided, so that parallel guesses
+   * can't get past a lockout while hashing. Only rejected attempts count as failures.
+   */
+  async attempt(client: string, verify: () => Promise<boolean>): Promise<LoginVerdict> {
+    const previous = this.#pending.get(client) ?? Promise.resolve();
+    const current = previous.then(async (): Promise<LoginVerdict> => {
+      const retryAfter = this.getRetryAfter(client);
+      if (retryAfter) {
+        return { type: "locked", retryAfter };
+      }
+      if (await verify()) {
+        this.succeed(client);
+        return { type: "accepted" };
+      }
+      return { type: "rejected", lockoutSeconds: this.fail(client) };
+    });
+    const tail = current.then(() => {}, () => {});
+    this.#pending.set(client, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (this.#pending.get(client) === tail) {
+        this.#pending.delete(client);
+      }
+    }
+  }
+
+  /** @returns seconds until the client may try again, or 0 if it may now. */
+  getRetryAfter(client: string, now = Date.now()): number {
+    const record = this.#records.get(client);
+    return record && record.lockedUntil > now ? Math.ceil((record.lockedUntil - now) / 1000) : 0;
+  }
+
+  /** @returns seconds of the lockout this failure caused, or 0. */
+  fail(client: string, now = Date.now()): number {
+    this.#evict(now);
+    const record = this.#records.get(client) ?? { failures: 0, lockedUntil: 0, lastSeen: now };
+    record.failures++;
+    record.lastSeen = now;
+    this.#records.set(client, record);
+
+    const { maxFailures, lockoutSeconds, maxLockoutSeconds } = this.#options;
+    const excess = record.failures - maxFailures;
+    if (excess <= 0) {
+      return 0;
+    }
+    const seconds = Math.min(lockoutSeconds * 2 ** (excess - 1), maxLockoutSeconds);
+    record.lockedUntil = now + seconds * 1000;
+    return seconds;
+  }
+
+  succeed(client: string) {
+    this.#records.delete(client);
+  }
+
+  #evict(now: number) {
+    for (const [client, record] of this.#records) {
+      if (now - record.lastSeen > IDLE_TIMEOUT_MS && record.lockedUntil <= now) {
+        this.#records.delete(client);
+      }
+    }
+  }
+}
+
+export type RateLimitOptions = {
+  requestsPerMinute: number;
+  /** Requests allowed at once after being idle. */
+  burst: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+/** Token bucket per client, refilled at a steady rate. */
+export class RateLimiter {
+  readonly #options: RateLimitOptions;
+  readonly #buckets = new Map<string, Bucket>();
+
+  constructor(options: RateLimitOptions) {
+    this.#options = options;
+  }
+
+  /** Takes a token. @returns seconds until one is available, or 0 if it was taken. */
+  take(client: string, now = Date.now()): number {
+    const { requestsPerMinute, burst } = this.#options;
+    const perMs = requestsPerMinute / 60_000;
+    const bucket = this.#buckets.get(client) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+    this.#buckets.set(client, bucket);
+
+    // A full bucket is the same as no bucket.
+    for (const [key, x] of this.#buckets) {
+      if (x.tokens + (now - x.updatedAt) * perMs >= burst && key !== client) {
+        this.#buckets.delete(key);
+      }
+    }
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+    }
+    bucket.tokens--;
+    return 0;
+  }
+}
+
+/** 429 telling when to retry. */
+export function tooManyRequests(retryAfterSeconds: number, message: string): Response {
+  return new Response(message, {
+    status: 429,
+    headers: { "Retry-After": `${retryAfterSeconds}` },
+  });
+}
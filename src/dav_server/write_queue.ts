@@ -0,0 +1,33 @@
+/**
+ * Runs writes to the same path one after another, so that the preconditions a write checked
+ * still hold when it's done.
+ */
+export class WriteQueue {
+  /** The last write queued for each absolute path. */
+  readonly #tails = new Map<string, Promise<void>>();
+
+  async run<T>(path: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.#tails.get(path) ?? Promise.resolve();
+    const current = previous.then(write);
+    const tail = current.then(() => {}, () => {});
+    this.#tails.set(path, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (this.#tails.get(path) === tail) {
+        this.#tails.delete(path);
+      }
+    }
+  }
+
+  /** Runs a write touching several paths after the writes queued for any of them. */
+  async runAll<T>(paths: string[], write: () => Promise<T>): Promise<T> {
+    // Queued in the same order everywhere, so that two writes never wait for each other.
+    const [first, ...rest] = [...new Set(paths)].sort();
+    if (first === undefined) {
+      return await write();
+    }
+    return await this.run(first, () => this.runAll(rest, write));
+  }
+}
@@ -0,0 +1,43 @@
+import { delay } from "jsr:@std/async/delay";
+import { join } from "jsr:@std/path";
+import { assertEquals } from "../tool/deps.ts";
+import { GitRecorder } from "./git_recorder.ts";
+import { FsStorage } from "./storage.ts";
+import { FsSubscriber } from "./subscription_handler.ts";
+
+Deno.test("Given a git recorder", async (test) => {
+  const root = await Deno.makeTempDir();
+  const storage = new FsStorage();
+  using subscriber = new FsSubscriber(root, storage);
+  using recorder = new GitRecorder(root, { storage, subscriber });
+
+  await test.step("when a user saves a script", async (test) => {
+    await delay(100);
+    await Deno.writeTextFile(
+      join(root, "foo.user.js"),
+      "// ==UserScript==\n// @name Foo\n// @version 1.2\n// ==/UserScript==\n",
+    );
+    await recorder.attribute(new Request("http://localhost/foo.user.js"), "alice");
+    const log = await waitForLog(root);
+
+    await test.step("should commit it as the user with the script name", () => {
+      assertEquals(log, "alice: Update Foo 1.2");
+    });
+  });
+
+  await Deno.remove(root, { recursive: true });
+});
+
+async function waitForLog(root: string) {
+  for (let i = 0; i < 30; i++) {
+    await delay(100);
+    const { stdout } = await new Deno.Command("git", {
+      args: ["log", "-1", "--format=%an: %s"],
+      env: { GIT_DIR: join(root, ".tamperdav", "git") },
+    }).output();
+    const log = new TextDecoder().decode(stdout).trim();
+    if (log && !log.endsWith("Import existing files")) {
+      return log;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { join, relative, resolve } from "jsr:@std/path";
+import { dirname } from "jsr:@std/path/posix";
+import { METADATA_DIRECTORY, resolvePath } from "./dav_server/paths.ts";
+import { FsStorage, type Storage } from "./storage.ts";
+import type { Change, FsSubscriber } from "./subscription_handler.ts";
+import { parseHeader } from "./userscript.ts";
+
+const DEFAULT_AUTHOR = "TamperDAV";
+
+/**
+ * Commits the root directory to a git repository under the metadata directory whenever
+ * {@link FsSubscriber} reports a change set, attributing it to the user who made the change.
+ * It needs the file system storage as git works on real files.
+ */
+export class GitRecorder implements Disposable {
+  readonly #root: string;
+  readonly #storage: Storage;
+  readonly #gitDirectory: string;
+  readonly #reader: ReadableStreamDefaultReader<Change[]>;
+  /** The last user who changed each relative path. */
+  readonly #authors = new Map<string, string>();
+  /** Serializes git commands. */
+  #committing: Promise<void>;
+
+  constructor(
+    root: string,
+    { storage, subscriber }: { storage: Storage; subscriber: FsSubscriber },
+  ) {
+    if (!(storage instanceof FsStorage)) {
+      throw new Error("Recording to git needs the file system storage");
+    }
+
+    this.#root = resolve(root);
+    this.#storage = storage;
+    this.#gitDirectory = join(this.#root, METADATA_DIRECTORY, "git");
+    this.#reader = subscriber.feed().getReader();
+    this.#committing = this.#init().catch(logError);
+    this.#run();
+  }
+
+  /** Remembers the user of a successful write request as the author of the paths it touched. */
+  async attribute(request: Request, user: string) {
+    const url = new URL(request.url);
+    const destination = request.headers.get("destination");
+    const pathnames = [url.pathname, ...(destination ? [new URL(destination, url).pathname] : [])];
+
+    for (const pathname of pathnames) {
+      const path = await resolvePath(this.#root, pathname, this.#storage).catch(() => undefined);
+      if (path) {
+        this.#authors.set(this.#toRelative(path), user || DEFAULT_AUTHOR);
+      }
+    }
+  }
+
+  /** Resolves after the pending changes are committed. */
+  async settle(): Promise<void> {
+    await this.#committing;
+  }
+
+  [Symbol.dispose](): void {
+    this.#reader.cancel();
+  }
+
+  async #run() {
+    while (true) {
+      const { done, value } = await this.#reader.read();
+      if (done) {
+        return;
+      }
+
+      this.#committing = this.#committing.then(() => this.#commitChanges(value)).catch(logError);
+    }
+  }
+
+  async #commitChanges(changes: Change[]) {
+    const paths = [...new Set(changes.map((x) => x.path))].sort();
+    const groups = new Map<string, string[]>();
+    for (const path of paths) {
+      const author = this.#findAuthor(path);
+      groups.set(author, [...groups.get(author) ?? [], path]);
+    }
+    // Forget them before awaiting, so that writes attributed meanwhile count for the next commit.
+    for (const path of paths) {
+      this.#authors.delete(path);
+    }
+
+    for (const [author, group] of groups) {
+      // git rejects pathspecs matching nothing, e.g. a file created and deleted in between.
+      const known = await Promise.all(group.map((x) => this.#isKnown(x)));
+      const pathspecs = group.filter((_, index) => known[index]);
+      if (pathspecs.length === 0) {
+        continue;
+      }
+
+      await this.#git(["add", "--all", "--", ...pathspecs]);
+      await this.#commit(await this.#describe(pathspecs), author);
+    }
+  }
+
+  async #init() {
+    const exists = await this.#storage.stat(this.#gitDirectory).then(() => true, () => false);
+    if (exists) {
+      return;
+    }
+
+    await this.#git(["init", "--quiet"]);
+    await this.#storage.write(
+      join(this.#gitDirectory, "info", "exclude"),
+      new TextEncoder().encode(`/${METADATA_DIRECTORY}/\n`),
+    );
+    await this.#git(["add", "--all"]);
+    await this.#commit("Import existing files", DEFAULT_AUTHOR);
+  }
+
+  /** Commits the staged changes if there are any. */
+  async #commit(message: string, author: string) {
+    const staged = await this.#git(["diff", "--cached", "--name-only"]);
+    if (!staged.trim()) {
+      return;
+    }
+
+    await this.#git(["-c", "commit.gpgsign=false", "commit", "--quiet", "--message", message], {
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author}@tamperdav`,
+    });
+  }
+
+  /** Whether the path exists or is tracked. */
+  async #isKnown(path: string) {
+    const exists = await this.#storage.stat(resolve(this.#root, path)).then(
+      () => true,
+      () => false,
+    );
+    return exists || !!(await this.#git(["ls-files", "--", path])).trim();
+  }
+
+  /** Names scripts by their `@name` and `@version`, e.g. `Update Foo 1.2`. */
+  async #describe(paths: string[]) {
+    const lines = [];
+    for (const path of paths.filter((x) => x.endsWith(".user.js"))) {
+      const source = await this.#storage.read(resolve(this.#root, path))
+        .then((stream) => new Response(stream).text(), () => undefined);
+      if (source === undefined) {
+        lines.push(`Delete ${path}`);
+        continue;
+      }
+
+      const header = parseHeader(source);
+      const name = header?.name ?? path;
+      const version = header?.version;
+      lines.push(`Update ${name}${version ? ` ${version}` : ""}`);
+    }
+
+    if (lines.length === 0) {
+      return `Update ${paths.length} file${paths.length === 1 ? "" : "s"}`;
+    }
+    if (lines.length === 1) {
+      return lines[0];
+    }
+    return `Update ${lines.length} scripts\n\n${lines.join("\n")}`;
+  }
+
+  /** Looks up the author of the path, or of the directory moved or deleted with it. */
+  #findAuthor(path: string) {
+    for (let key = path; key !== "."; key = dirname(key)) {
+      const author = this.#authors.get(key);
+      if (author) {
+        return author;
+      }
+    }
+    return DEFAULT_AUTHOR;
+  }
+
+  async #git(args: string[], env: Record<string, string> = {}) {
+    const command = new Deno.Command("git", {
+      args,
+      cwd: this.#root,
+      env: {
+        GIT_DIR: this.#gitDirectory,
+        GIT_WORK_TREE: this.#root,
+        GIT_LITERAL_PATHSPECS: "1",
+        GIT_COMMITTER_NAME: DEFAULT_AUTHOR,
+        GIT_COMMITTER_EMAIL: `${DEFAULT_AUTHOR}@tamperdav`,
+        ...env,
+      },
+      stdin: "null",
+    });
+    const { success, stdout, stderr } = await command.output();
+    if (!success) {
+      throw new Error(`git ${args[0]} failed: ${new TextDecoder().decode(stderr)}`);
+    }
+    return new TextDecoder().decode(stdout);
+  }
+
+  #toRelative(path: string) {
+    return relative(this.#root, path).replace(/\\/g, "/");
+  }
+}
+
+function logError(error: unknown) {
+  console.error(`git: ${error}`);
+}
@@ -0,0 +1,99 @@
+import { dirname, join, normalize } from "jsr:@std/path/posix";
+import type { ScriptEntry } from "./script_index.ts";
+import { parseHeader, parseMeta } from "./userscript.ts";
+import type { ZipEntry } from "./zip.ts";
+
+/** Path serving the script library as a zip archive. */
+export const EXPORT_PATH = "/_export";
+/** Path accepting an archive made by {@link EXPORT_PATH}. */
+export const IMPORT_PATH = "/_import";
+/** Largest archive {@link IMPORT_PATH} accepts. */
+export const MAX_IMPORT_BYTES = 64 * 1024 * 1024;
+/** Largest total size of the files of an imported archive. */
+export const MAX_IMPORT_EXTRACTED_BYTES = 256 * 1024 * 1024;
+
+const STORAGE_SUFFIX = ".storage.json";
+
+/** Which files to export along with the scripts. */
+export type ExportOptions = {
+  meta: boolean;
+  /** `.storage.json` holding the values of `GM_setValue`. */
+  storage: boolean;
+  /** Local files referenced by `@require` with a relative URL. */
+  requires: boolean;
+};
+
+/** Reads the `meta`, `storage` and `requires` query parameters, e.g. `?storage=true`. */
+export function parseExportOptions(params: URLSearchParams): ExportOptions {
+  const getFlag = (name: string, fallback: boolean) => {
+    const value = params.get(name);
+    return value === null ? fallback : value !== "false" && value !== "0";
+  };
+  return {
+    meta: getFlag("meta", true),
+    storage: getFlag("storage", false),
+    requires: getFlag("requires", false),
+  };
+}
+
+/**
+ * Relative paths of the files of live scripts.
+ *
+ * Like `prune_scripts`, a script counts as removed if it has no meta file or its meta file says so.
+ * Candidates which may not exist, like storage files, are included and left to the caller to skip.
+ */
+export function getExportPaths(entries: ScriptEntry[], options: ExportOptions): string[] {
+  const paths = new Set<string>();
+  for (const { path, metaPath, removed, header } of entries) {
+    if (!path || !metaPath || removed) {
+      continue;
+    }
+
+    paths.add(path);
+    if (options.meta) {
+      paths.add(metaPath);
+    }
+    if (options.storage) {
+      paths.add(`${metaPath.slice(0, -".meta.json".length)}${STORAGE_SUFFIX}`);
+    }
+    if (options.requires) {
+      for (const require of header?.require ?? []) {
+        const requirePath = toLocalPath(dirname(path), require);
+        if (requirePath) {
+          paths.add(requirePath);
+        }
+      }
+    }
+  }
+  return [...paths].sort();
+}
+
+/**
+ * Checks that the contents of scripts and meta files are what Tampermonkey expects.
+ * @returns the reason if an entry is invalid.
+ */
+export function validateImport(entries: ZipEntry[]): string | undefined {
+  for (const { name, content } of entries) {
+    if (name.endsWith(".user.js") && !parseHeader(new TextDecoder().decode(content))) {
+      return `${name} has no userscript header`;
+    }
+    if (name.endsWith(".meta.json") && !parseMeta(new TextDecoder().decode(content))) {
+      return `${name} is not a Tampermonkey meta file`;
+    }
+  }
+}
+
+/** Orders meta files last, so that browsers see a script only after its source is in place. */
+export function compareImportOrder(a: ZipEntry, b: ZipEntry): number {
+  const isMeta = (x: ZipEntry) => x.name.endsWith(".meta.json") ? 1 : 0;
+  return isMeta(a) - isMeta(b) || a.name.localeCompare(b.name);
+}
+
+function toLocalPath(directory: string, url: string) {
+  if (/^[a-z][a-z\d+.-]*:/i.test(url) || url.startsWith("//")) {
+    return;
+  }
+
+  const path = normalize(join(directory, url.replace(/[?#].*/, "")));
+  return path === ".." || path.startsWith("../") || path.startsWith("/") ? undefined : path;
+}
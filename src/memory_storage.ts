@@ -0,0 +1,271 @@
+import { dirname, resolve, SEPARATOR } from "jsr:@std/path";
+import type { Storage, StorageEvent, StorageStat, StorageWatcher } from "./storage.ts";
+
+type Entry =
+  | { type: "file"; data: Uint8Array; mtime: Date; birthtime: Date }
+  | { type: "directory"; mtime: Date; birthtime: Date };
+
+type Watch = {
+  path: string;
+  recursive: boolean;
+  controller: ReadableStreamDefaultController<StorageEvent>;
+};
+
+/**
+ * Keeps everything in memory, for hermetic tests and embedding.
+ * The file system root always exists, and other directories have to be made with `mkdir`.
+ */
+export class MemoryStorage implements Storage {
+  readonly #entries = new Map<string, Entry>();
+  readonly #watches = new Set<Watch>();
+
+  stat(path: string): Promise<StorageStat> {
+    return settle(() => {
+      const entry = this.#get(path);
+      return {
+        isFile: entry.type === "file",
+        isDirectory: entry.type === "directory",
+        size: entry.type === "file" ? entry.data.length : 0,
+        mtime: entry.mtime,
+        birthtime: entry.birthtime,
+        // Only the file system keeps it, and without it ETags aren't cached.
+        ctime: null,
+      };
+    });
+  }
+
+  realPath(path: string): Promise<string> {
+    return settle(() => {
+      this.#get(path);
+      return resolve(path);
+    });
+  }
+
+  read(path: string): Promise<ReadableStream<Uint8Array>> {
+    return settle(() => {
+      const entry = this.#get(path);
+      if (entry.type !== "file") {
+        throw new Deno.errors.IsADirectory(path);
+      }
+
+      const data = entry.data.slice();
+      return new ReadableStream({
+        start: (controller) => {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+    });
+  }
+
+  async write(
+    path: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+    { signal }: { signal?: AbortSignal } = {},
+  ) {
+    this.#getDirectory(dirname(path));
+    const existing = this.#entries.get(resolve(path));
+    if (existing?.type === "directory") {
+      throw new Deno.errors.IsADirectory(path);
+    }
+
+    const content = data instanceof Uint8Array ? data.slice() : await new Response(data).bytes();
+    signal?.throwIfAborted();
+
+    const now = new Date();
+    this.#entries.set(resolve(path), {
+      type: "file",
+      data: content,
+      mtime: now,
+      birthtime: existing?.birthtime ?? now,
+    });
+    this.#emit(existing ? "modify" : "create", [path]);
+  }
+
+  setModified(path: string, mtime: Date): Promise<void> {
+    return settle(() => {
+      this.#get(path).mtime = mtime;
+      this.#emit("modify", [path]);
+    });
+  }
+
+  async *list(path: string, { maxDepth, skip = [] }: { maxDepth: number; skip?: RegExp[] }) {
+    const root = resolve(path);
+    this.#get(root);
+
+    const pending = [{ path: root, depth: 0 }];
+    while (pending.length) {
+      const current = pending.shift()!;
+      if (skip.some((x) => x.test(current.path))) {
+        continue;
+      }
+      yield current.path;
+
+      if (current.depth < maxDepth && this.#find(current.path)?.type === "directory") {
+        const children = this.#getChildren(current.path).sort();
+        pending.push(...children.map((x) => ({ path: x, depth: current.depth + 1 })));
+      }
+    }
+  }
+
+  mkdir(path: string, { recursive }: { recursive?: boolean } = {}): Promise<void> {
+    return settle(() => this.#mkdir(path, { recursive }));
+  }
+
+  remove(path: string, { recursive }: { recursive?: boolean } = {}): Promise<void> {
+    return settle(() => {
+      const key = resolve(path);
+      this.#get(key);
+
+      const descendants = this.#getDescendants(key);
+      if (descendants.length && !recursive) {
+        throw new Deno.errors.AlreadyExists(`Directory not empty: ${path}`);
+      }
+
+      for (const descendant of descendants) {
+        this.#entries.delete(descendant);
+      }
+      this.#entries.delete(key);
+      this.#emit("remove", [path]);
+    });
+  }
+
+  rename(from: string, to: string): Promise<void> {
+    return settle(() => {
+      const fromKey = resolve(from);
+      const toKey = resolve(to);
+      this.#get(fromKey);
+      this.#getDirectory(dirname(toKey));
+
+      const keys = [fromKey, ...this.#getDescendants(fromKey)];
+      const moved = keys.map((key) => [key, this.#entries.get(key)!] as const);
+      for (const key of keys) {
+        this.#entries.delete(key);
+      }
+      for (const [key, entry] of moved) {
+        this.#entries.set(`${toKey}${key.slice(fromKey.length)}`, entry);
+      }
+      this.#emit("rename", [from, to]);
+    });
+  }
+
+  copy(from: string, to: string): Promise<void> {
+    return settle(() => {
+      const fromKey = resolve(from);
+      const toKey = resolve(to);
+      this.#get(fromKey);
+      this.#getDirectory(dirname(toKey));
+
+      const now = new Date();
+      for (const key of [fromKey, ...this.#getDescendants(fromKey)]) {
+        const entry = this.#entries.get(key)!;
+        const copied: Entry = entry.type === "file"
+          ? { type: "file", data: entry.data.slice(), mtime: now, birthtime: now }
+          : { type: "directory", mtime: now, birthtime: now };
+        this.#entries.set(`${toKey}${key.slice(fromKey.length)}`, copied);
+      }
+      this.#emit("create", [to]);
+    });
+  }
+
+  watch(path: string, { recursive }: { recursive: boolean }): StorageWatcher {
+    let watch: Watch;
+    const events = new ReadableStream<StorageEvent>({
+      start: (controller) => {
+        watch = { path: resolve(path), recursive, controller };
+        this.#watches.add(watch);
+      },
+      cancel: () => {
+        this.#watches.delete(watch);
+      },
+    });
+
+    return {
+      [Symbol.asyncIterator]: () => events[Symbol.asyncIterator](),
+      close: () => {
+        if (this.#watches.delete(watch)) {
+          watch.controller.close();
+        }
+      },
+    };
+  }
+
+  #mkdir(path: string, { recursive }: { recursive?: boolean }) {
+    const key = resolve(path);
+    const existing = this.#find(key);
+    if (existing) {
+      if (recursive && existing.type === "directory") {
+        return;
+      }
+      throw new Deno.errors.AlreadyExists(path);
+    }
+
+    if (recursive) {
+      this.#mkdir(dirname(key), { recursive });
+    } else {
+      this.#getDirectory(dirname(key));
+    }
+
+    const now = new Date();
+    this.#entries.set(key, { type: "directory", mtime: now, birthtime: now });
+    this.#emit("create", [path]);
+  }
+
+  #emit(kind: StorageEvent["kind"], paths: string[]) {
+    const keys = paths.map((x) => resolve(x));
+    for (const watch of this.#watches) {
+      const isWatched = keys.some((key) =>
+        key === watch.path ||
+        (watch.recursive ? isDescendant(watch.path, key) : dirname(key) === watch.path)
+      );
+      if (isWatched) {
+        watch.controller.enqueue({ kind, paths: keys });
+      }
+    }
+  }
+
+  #find(path: string): Entry | undefined {
+    const key = resolve(path);
+    if (dirname(key) === key) {
+      return { type: "directory", mtime: new Date(0), birthtime: new Date(0) };
+    }
+    return this.#entries.get(key);
+  }
+
+  #get(path: string): Entry {
+    const entry = this.#find(path);
+    if (!entry) {
+      throw new Deno.errors.NotFound(path);
+    }
+    return entry;
+  }
+
+  #getDirectory(path: string) {
+    const entry = this.#get(path);
+    if (entry.type !== "directory") {
+      throw new Deno.errors.NotADirectory(path);
+    }
+    return entry;
+  }
+
+  #getChildren(path: string) {
+    return [...this.#entries.keys()].filter((x) => x !== path && dirname(x) === path);
+  }
+
+  #getDescendants(path: string) {
+    return [...this.#entries.keys()].filter((x) => isDescendant(path, x));
+  }
+}
+
+/** Turns exceptions into rejections, as the file system API reports failures. */
+function settle<T>(action: () => T): Promise<T> {
+  try {
+    return Promise.resolve(action());
+  } catch (error) {
+    return Promise.reject(error);
+  }
+}
+
+function isDescendant(ancestor: string, path: string) {
+  return path.startsWith(ancestor.endsWith(SEPARATOR) ? ancestor : `${ancestor}${SEPARATOR}`);
+}
@@ -0,0 +1,172 @@
+import { relative, resolve } from "jsr:@std/path";
+import { getMetadataPattern } from "./dav_server/paths.ts";
+import type { Storage } from "./storage.ts";
+import type { Change, FsSubscriber } from "./subscription_handler.ts";
+import {
+  parseHeader,
+  parseMeta,
+  type TampermonkeyMeta,
+  type UserscriptHeader,
+} from "./userscript.ts";
+
+/** Path of the JSON endpoint serving the index. */
+export const SCRIPTS_PATH = "/_api/scripts";
+
+const SCRIPT_SUFFIX = ".user.js";
+const META_SUFFIX = ".meta.json";
+
+/** A script and its meta file, which share the name before the suffix. */
+export type ScriptEntry = {
+  /** Relative path of the `.user.js`, undefined if only the meta file exists. */
+  path?: string;
+  /** Relative path of the `.meta.json`, undefined if only the script exists. */
+  metaPath?: string;
+  uuid?: string;
+  removed: boolean;
+  /** Undefined if the script has no metadata block. */
+  header?: UserscriptHeader;
+  meta?: TampermonkeyMeta;
+  size?: number;
+  /** ISO date */
+  mtime?: string;
+};
+
+type IndexedScript = {
+  path: string;
+  header?: UserscriptHeader;
+  size: number;
+  mtime?: string;
+};
+
+type IndexedMeta = { path: string; meta: TampermonkeyMeta };
+
+/** Userscripts under the root, kept current with the change sets of {@link FsSubscriber}. */
+export class ScriptIndex implements Disposable {
+  readonly #root: string;
+  readonly #storage: Storage;
+  readonly #reader: ReadableStreamDefaultReader<Change[]>;
+  /** Keyed by the relative path without the suffix. */
+  readonly #scripts = new Map<string, IndexedScript>();
+  readonly #metas = new Map<string, IndexedMeta>();
+  /** Serializes scanning and updates. */
+  #updating: Promise<void>;
+
+  constructor(
+    root: string,
+    { storage, subscriber }: { storage: Storage; subscriber: FsSubscriber },
+  ) {
+    this.#root = resolve(root);
+    this.#storage = storage;
+    // Start listening before the scan so that no change slips in between.
+    this.#reader = subscriber.feed().getReader();
+    this.#updating = this.#refresh(this.#root).catch(logError);
+    this.#run();
+  }
+
+  /** Every known script, after the pending updates are applied. */
+  async list(): Promise<ScriptEntry[]> {
+    await this.#updating;
+
+    const stems = [...new Set([...this.#scripts.keys(), ...this.#metas.keys()])].sort();
+    return stems.map((stem) => {
+      const script = this.#scripts.get(stem);
+      const meta = this.#metas.get(stem);
+      return {
+        path: script?.path,
+        metaPath: meta?.path,
+        uuid: meta?.meta.uuid,
+        removed: !!meta?.meta.options.removed,
+        header: script?.header,
+        meta: meta?.meta,
+        size: script?.size,
+        mtime: script?.mtime,
+      };
+    });
+  }
+
+  [Symbol.dispose](): void {
+    this.#reader.cancel();
+  }
+
+  async #run() {
+    while (true) {
+      const { done, value } = await this.#reader.read();
+      if (done) {
+        return;
+      }
+
+      const paths = [...new Set(value.map((x) => resolve(this.#root, x.path)))];
+      this.#updating = this.#updating.then(async () => {
+        for (const path of paths) {
+          await this.#refresh(path);
+        }
+      }).catch(logError);
+    }
+  }
+
+  /** Re-reads `path` and everything below it, as it may be a moved or deleted directory. */
+  async #refresh(path: string) {
+    const prefix = this.#toRelative(path);
+    const isUnder = (x: string) => !prefix || x === prefix || x.startsWith(`${prefix}/`);
+    const known = [...this.#scripts.values(), ...this.#metas.values()]
+      .map((x) => x.path)
+      .filter(isUnder);
+
+    const skip = [getMetadataPattern(this.#root)];
+    const existing = [];
+    try {
+      for await (const entry of this.#storage.list(path, { maxDepth: Infinity, skip })) {
+        existing.push(this.#toRelative(entry));
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+
+    const candidates = new Set([...known, ...existing]);
+    for (const candidate of candidates) {
+      if (candidate.endsWith(SCRIPT_SUFFIX) || candidate.endsWith(META_SUFFIX)) {
+        await this.#read(candidate).catch(logError);
+      }
+    }
+  }
+
+  async #read(relativePath: string) {
+    const isScript = relativePath.endsWith(SCRIPT_SUFFIX);
+    const stem = relativePath.slice(0, -(isScript ? SCRIPT_SUFFIX : META_SUFFIX).length);
+    const path = resolve(this.#root, relativePath);
+
+    const stat = await this.#storage.stat(path).catch(() => null);
+    if (!stat?.isFile) {
+      (isScript ? this.#scripts : this.#metas).delete(stem);
+      return;
+    }
+
+    const text = await new Response(await this.#storage.read(path)).text();
+    if (isScript) {
+      this.#scripts.set(stem, {
+        path: relativePath,
+        header: parseHeader(text),
+        size: stat.size,
+        mtime: stat.mtime?.toISOString(),
+      });
+      return;
+    }
+
+    const meta = parseMeta(text);
+    if (meta) {
+      this.#metas.set(stem, { path: relativePath, meta });
+    } else {
+      this.#metas.delete(stem);
+    }
+  }
+
+  #toRelative(path: string) {
+    return relative(this.#root, path).replace(/\\/g, "/");
+  }
+}
+
+function logError(error: unknown) {
+  console.error(`script index: ${error}`);
+}
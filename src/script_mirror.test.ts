@@ -0,0 +1,77 @@
+import { delay } from "jsr:@std/async/delay";
+import { join, resolve } from "jsr:@std/path";
+import { assertEquals } from "../tool/deps.ts";
+import { MemoryStorage } from "./memory_storage.ts";
+import { ScriptMirror } from "./script_mirror.ts";
+import { FsSubscriber } from "./subscription_handler.ts";
+
+Deno.test("Given a mirrored script", async (test) => {
+  const root = resolve("/dav");
+  const directory = resolve("/mirror");
+  const storage = new MemoryStorage();
+  await storage.mkdir(root);
+  await write(storage, join(root, "b31a.user.js"), script("1.0"));
+  await write(storage, join(root, "b31a.meta.json"), '{"uuid":"b31a","options":{}}');
+
+  using subscriber = new FsSubscriber(root, storage);
+  using mirror = new ScriptMirror(root, { directory, storage, subscriber });
+  const mirrorPath = join(directory, "example.com", "Foo.user.js");
+  await mirror.settle();
+
+  await test.step("should name the copy after the header", async () => {
+    assertEquals(await read(storage, mirrorPath), script("1.0"));
+  });
+
+  await test.step("when the browser updates it", async (test) => {
+    await write(storage, join(root, "b31a.user.js"), script("1.1"));
+    await settle(mirror);
+
+    await test.step("should update the copy", async () => {
+      assertEquals(await read(storage, mirrorPath), script("1.1"));
+    });
+  });
+
+  await test.step("when the copy is edited", async (test) => {
+    await write(storage, mirrorPath, script("1.2"));
+    await settle(mirror);
+
+    await test.step("should update the script", async () => {
+      assertEquals(await read(storage, join(root, "b31a.user.js")), script("1.2"));
+    });
+  });
+
+  await test.step("when both are edited", async (test) => {
+    await write(storage, join(root, "b31a.user.js"), script("1.3-browser"));
+    await write(storage, mirrorPath, script("1.3-local"));
+    await settle(mirror);
+
+    await test.step("should keep the local one aside", async () => {
+      assertEquals(await read(storage, mirrorPath), script("1.3-browser"));
+      const conflictPath = join(directory, "example.com", "Foo.conflict.user.js");
+      assertEquals(await read(storage, conflictPath), script("1.3-local"));
+    });
+  });
+});
+
+function script(version: string) {
+  return `// ==UserScript==
+// @name Foo
+// @namespace https://example.com
+// @version ${version}
+// ==/UserScript==
+`;
+}
+
+async function settle(mirror: ScriptMirror) {
+  // Lets the subscriber debounce the change.
+  await delay(700);
+  await mirror.settle();
+}
+
+async function write(storage: MemoryStorage, path: string, text: string) {
+  await storage.write(path, new TextEncoder().encode(text));
+}
+
+async function read(storage: MemoryStorage, path: string) {
+  return await new Response(await storage.read(path)).text();
+}
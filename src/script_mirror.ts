@@ -0,0 +1,253 @@
+import { encodeHex } from "jsr:@std/encoding/hex";
+import { basename, dirname, isAbsolute, join, relative, resolve, SEPARATOR } from "jsr:@std/path";
+import type { History } from "./dav_server/history.ts";
+import { getMetadataPattern, METADATA_DIRECTORY } from "./dav_server/paths.ts";
+import type { Storage, StorageWatcher } from "./storage.ts";
+import type { Change, FsSubscriber } from "./subscription_handler.ts";
+import { parseHeader, parseMeta } from "./userscript.ts";
+
+const SCRIPT_SUFFIX = ".user.js";
+const META_SUFFIX = ".meta.json";
+
+/** What both sides agreed on when they were last in sync. */
+type MirroredScript = {
+  /** Path relative to the mirror directory. */
+  mirror: string;
+  /** SHA-1 of the content, to tell which side changed since. */
+  hash: string;
+};
+
+/**
+ * Keeps a copy of every script in a separate directory, named `<namespace>/<name>.user.js` after
+ * its header instead of the UUID, and propagates edits from either side to the other.
+ *
+ * The name is chosen when a script is first seen and kept after that, so renaming a script in
+ * its header doesn't move the file under an open editor. If both sides changed since the last
+ * sync, the browser's version wins and the local one is kept as `<name>.conflict.user.js`.
+ * Deleting a mirror file only makes it come back, as scripts are removed in the browser.
+ */
+export class ScriptMirror implements Disposable {
+  readonly #root: string;
+  readonly #directory: string;
+  readonly #storage: Storage;
+  readonly #subscriber: FsSubscriber;
+  readonly #history?: History;
+  readonly #metaTouch: boolean;
+  readonly #statePath: string;
+  readonly #reader: ReadableStreamDefaultReader<Change[]>;
+  #watcher?: StorageWatcher;
+  /** Keyed by the script path relative to the root. */
+  #scripts = new Map<string, MirroredScript>();
+  /** Serializes syncing. */
+  #syncing: Promise<void>;
+
+  constructor(
+    root: string,
+    { directory, storage, subscriber, history, metaTouch }: {
+      directory: string;
+      storage: Storage;
+      subscriber: FsSubscriber;
+      history?: History;
+      /** Touches the meta file after an edit in the mirror so that browsers sync it. */
+      metaTouch?: boolean;
+    },
+  ) {
+    this.#root = resolve(root);
+    this.#directory = resolve(directory);
+    const fromRoot = relative(this.#root, this.#directory);
+    const isOutside = fromRoot === ".." || fromRoot.startsWith(`..${SEPARATOR}`) ||
+      isAbsolute(fromRoot);
+    if (!isOutside) {
+      throw new Error(`The mirror directory must be outside of ${this.#root}`);
+    }
+
+    this.#storage = storage;
+    this.#subscriber = subscriber;
+    this.#history = history;
+    this.#metaTouch = !!metaTouch;
+    this.#statePath = join(this.#root, METADATA_DIRECTORY, "mirror.json");
+    this.#reader = subscriber.feed().getReader();
+    this.#syncing = this.#init().catch(logError);
+    this.#run();
+  }
+
+  /** Resolves after the pending changes are synced. */
+  async settle(): Promise<void> {
+    await this.#syncing;
+  }
+
+  [Symbol.dispose](): void {
+    this.#reader.cancel();
+    this.#watcher?.close();
+  }
+
+  async #init() {
+    const state = await this.#storage.read(this.#statePath)
+      .then((stream) => new Response(stream).json())
+      .catch(() => ({}));
+    this.#scripts = new Map(Object.entries(state));
+
+    await this.#storage.mkdir(this.#directory, { recursive: true });
+    this.#watcher = this.#storage.watch(this.#directory, { recursive: true });
+    this.#watch(this.#watcher);
+
+    const scripts = new Set(this.#scripts.keys());
+    const skip = [getMetadataPattern(this.#root)];
+    for await (const path of this.#storage.list(this.#root, { maxDepth: Infinity, skip })) {
+      if (path.endsWith(SCRIPT_SUFFIX)) {
+        scripts.add(this.#toRelative(this.#root, path));
+      }
+    }
+    await this.#syncAll(scripts);
+  }
+
+  async #run() {
+    while (true) {
+      const { done, value } = await this.#reader.read();
+      if (done) {
+        return;
+      }
+
+      const scripts = new Set<string>();
+      for (const { path } of value) {
+        if (path.endsWith(SCRIPT_SUFFIX)) {
+          scripts.add(path);
+        } else if (path.endsWith(META_SUFFIX)) {
+          scripts.add(`${path.slice(0, -META_SUFFIX.length)}${SCRIPT_SUFFIX}`);
+        } else {
+          // A moved or deleted directory takes the scripts below it.
+          const known = [...this.#scripts.keys()].filter((x) => x.startsWith(`${path}/`));
+          known.forEach((x) => scripts.add(x));
+        }
+      }
+      this.#enqueue(scripts);
+    }
+  }
+
+  async #watch(watcher: StorageWatcher) {
+    try {
+      for await (const { paths } of watcher) {
+        const mirrors = new Set(paths.map((x) => this.#toRelative(this.#directory, x)));
+        const scripts = [...this.#scripts].filter(([, x]) => mirrors.has(x.mirror));
+        this.#enqueue(scripts.map(([path]) => path));
+      }
+    } catch (error) {
+      logError(error);
+    }
+  }
+
+  #enqueue(scripts: Iterable<string>) {
+    const paths = [...scripts];
+    if (paths.length) {
+      this.#syncing = this.#syncing.then(() => this.#syncAll(paths)).catch(logError);
+    }
+  }
+
+  async #syncAll(scripts: Iterable<string>) {
+    for (const script of scripts) {
+      await this.#sync(script).catch(logError);
+    }
+    const state = Object.fromEntries(this.#scripts);
+    await this.#storage.mkdir(dirname(this.#statePath), { recursive: true });
+    await this.#storage.write(this.#statePath, new TextEncoder().encode(JSON.stringify(state)));
+  }
+
+  async #sync(script: string) {
+    const scriptPath = resolve(this.#root, script);
+    const metaPath = `${scriptPath.slice(0, -SCRIPT_SUFFIX.length)}${META_SUFFIX}`;
+    const source = await this.#isRemoved(metaPath) ? undefined : await this.#read(scriptPath);
+    const known = this.#scripts.get(script);
+
+    if (source === undefined) {
+      if (known) {
+        const mirrorPath = resolve(this.#directory, known.mirror);
+        const copy = await this.#read(mirrorPath);
+        if (copy && await hash(copy) === known.hash) {
+          await this.#storage.remove(mirrorPath);
+        }
+        this.#scripts.delete(script);
+      }
+      return;
+    }
+
+    const mirror = known?.mirror ?? this.#chooseName(script, source);
+    const mirrorPath = resolve(this.#directory, mirror);
+    const copy = await this.#read(mirrorPath);
+    const [sourceHash, copyHash] = await Promise.all([hash(source), copy && hash(copy)]);
+    let agreedHash = sourceHash;
+
+    if (copy === undefined || copyHash === known?.hash) {
+      if (copyHash !== sourceHash) {
+        await this.#storage.mkdir(dirname(mirrorPath), { recursive: true });
+        await this.#storage.write(mirrorPath, source);
+      }
+    } else if (sourceHash === known?.hash) {
+      agreedHash = copyHash!;
+      await this.#history?.save(scriptPath);
+      await this.#storage.write(scriptPath, copy);
+      const touched = this.#metaTouch &&
+        await this.#storage.setModified(metaPath, new Date()).then(() => true, () => false);
+      this.#subscriber.publish(touched ? [scriptPath, metaPath] : [scriptPath]);
+    } else if (sourceHash !== copyHash) {
+      const conflictPath = `${mirrorPath.slice(0, -SCRIPT_SUFFIX.length)}.conflict${SCRIPT_SUFFIX}`;
+      await this.#storage.write(conflictPath, copy);
+      await this.#storage.write(mirrorPath, source);
+      console.warn(
+        `mirror: ${mirror} changed on both sides, kept the local one as ${basename(conflictPath)}`,
+      );
+    }
+
+    this.#scripts.set(script, { mirror, hash: agreedHash });
+  }
+
+  /** `<namespace>/<name>.user.js`, with the UUID appended if it's taken. */
+  #chooseName(script: string, source: Uint8Array) {
+    const header = parseHeader(new TextDecoder().decode(source));
+    const stem = basename(script, SCRIPT_SUFFIX);
+    const name = sanitize(header?.name ?? "") || stem;
+    const namespace = sanitize(header?.namespace?.replace(/^[a-z][a-z\d+.-]*:\/*/i, "") ?? "");
+    const candidate = namespace ? `${namespace}/${name}` : name;
+
+    const taken = new Set([...this.#scripts.values()].map((x) => x.mirror.toLowerCase()));
+    const path = `${candidate}${SCRIPT_SUFFIX}`;
+    return taken.has(path.toLowerCase()) ? `${candidate} (${stem})${SCRIPT_SUFFIX}` : path;
+  }
+
+  async #isRemoved(metaPath: string) {
+    const meta = await this.#read(metaPath);
+    return !!(meta && parseMeta(new TextDecoder().decode(meta))?.options.removed);
+  }
+
+  async #read(path: string) {
+    try {
+      const stat = await this.#storage.stat(path);
+      if (!stat.isFile) {
+        return;
+      }
+      return new Uint8Array(await new Response(await this.#storage.read(path)).arrayBuffer());
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  #toRelative(from: string, path: string) {
+    return relative(from, path).replaceAll(SEPARATOR, "/");
+  }
+}
+
+/** Makes a header value safe as a file name on any platform. */
+function sanitize(text: string) {
+  const printable = [...text].map((x) => x.charCodeAt(0) < 0x20 ? "_" : x).join("");
+  return printable.replace(/[<>:"/\\|?*]/g, "_").replace(/^[\s.]+|[\s.]+$/g, "");
+}
+
+async function hash(content: Uint8Array) {
+  return encodeHex(await crypto.subtle.digest("SHA-1", content as BufferSource));
+}
+
+function logError(error: unknown) {
+  console.error(`mirror: ${error}`);
+}
@@ -0,0 +1,35 @@
+import { deadline } from "jsr:@std/async/deadline";
+import { delay } from "jsr:@std/async/delay";
+import { assertEquals } from "../tool/deps.ts";
+import { DavServer } from "./dav_server.ts";
+import { shutdown } from "./shutdown.ts";
+
+Deno.test("Given a server with a waiting subscription", async (test) => {
+  const root = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${root}/test.txt`, "Hello, world!");
+
+  const davServer = new DavServer(root, {});
+  const server = Deno.serve({ port: 0 }, davServer.logAndHandleRequest);
+  const url = `http://localhost:${server.addr.port}/`;
+  const subscribe = () => fetch(url, { method: "SUBSCRIBE" });
+
+  // The first ones are answered right away, and the next one waits for changes.
+  await deadline(Promise.all([1, 2, 3, 4].map(() => subscribe())), 1000);
+  const longPoll = subscribe();
+  await delay(200);
+
+  await test.step("when shut down", async (test) => {
+    const isClean = await deadline(shutdown(davServer, [server], { graceSeconds: 5 }), 2000);
+    const response = await longPoll;
+
+    await test.step("should answer the subscription with no changes", () => {
+      assertEquals(response.status, 204);
+    });
+
+    await test.step("should finish within the grace period", () => {
+      assertEquals(isClean, true);
+    });
+  });
+
+  await Deno.remove(root, { recursive: true });
+});
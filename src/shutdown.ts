@@ -0,0 +1,59 @@
+import type { DavServer } from "./dav_server.ts";
+
+/** Signals which stop the server. Windows has no SIGTERM. */
+const SHUTDOWN_SIGNALS: Deno.Signal[] = Deno.build.os === "windows"
+  ? ["SIGINT", "SIGBREAK"]
+  : ["SIGINT", "SIGTERM"];
+
+/**
+ * Stops accepting connections, answers long-polls with what they have and waits for the open
+ * requests and pending writes to finish, up to `graceSeconds`. The server is disposed either way.
+ * @returns whether everything finished in time
+ */
+export async function shutdown(
+  davServer: DavServer,
+  listeners: Deno.HttpServer[],
+  { graceSeconds }: { graceSeconds: number },
+): Promise<boolean> {
+  const closing = Promise.all(listeners.map((x) => x.shutdown()));
+  davServer.drain();
+  const finished = closing.then(() => davServer.settle()).then(() => true);
+
+  let timeoutId: number | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timeoutId = setTimeout(() => resolve(false), graceSeconds * 1000);
+  });
+
+  try {
+    return await Promise.race([finished, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    davServer[Symbol.dispose]();
+  }
+}
+
+/**
+ * Calls `onSignal` on the first SIGINT or SIGTERM, and exits right away on the second.
+ * @returns a function to remove the listeners
+ */
+export function handleShutdownSignals(onSignal: (signal: Deno.Signal) => void): () => void {
+  let received = false;
+  const listeners = SHUTDOWN_SIGNALS.map((signal) => {
+    const listener = () => {
+      if (received) {
+        console.warn(`${signal} received again, exiting now`);
+        Deno.exit(130);
+      }
+      received = true;
+      onSignal(signal);
+    };
+    Deno.addSignalListener(signal, listener);
+    return [signal, listener] as const;
+  });
+
+  return () => {
+    for (const [signal, listener] of listeners) {
+      Deno.removeSignalListener(signal, listener);
+    }
+  };
+}
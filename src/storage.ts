@@ -0,0 +1,124 @@
+import { copy as copyDirectory, walk } from "jsr:@std/fs";
+
+/** Part of {@link Deno.FileInfo} the server relies on. */
+export type StorageStat = Pick<
+  Deno.FileInfo,
+  "isFile" | "isDirectory" | "size" | "mtime" | "birthtime" | "ctime"
+>;
+
+export type StorageEvent = Pick<Deno.FsEvent, "kind" | "paths">;
+
+export type StorageWatcher = AsyncIterable<StorageEvent> & { close(): void };
+
+/**
+ * Where the served files are kept.
+ *
+ * Paths are absolute, and failures are reported with {@link Deno.errors} as the Deno file system
+ * API does, e.g. {@link Deno.errors.NotFound} for a missing entry.
+ */
+export interface Storage {
+  stat(path: string): Promise<StorageStat>;
+  /** Resolves symbolic links. */
+  realPath(path: string): Promise<string>;
+  read(path: string): Promise<ReadableStream<Uint8Array>>;
+  /** Creates or truncates a file. */
+  write(
+    path: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+    options?: { signal?: AbortSignal },
+  ): Promise<void>;
+  setModified(path: string, mtime: Date): Promise<void>;
+  /** Yields `path` and its descendants down to `maxDepth`, pruning the ones matching `skip`. */
+  list(path: string, options: { maxDepth: number; skip?: RegExp[] }): AsyncIterable<string>;
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+  /**
+   * @throws {Deno.errors.AlreadyExists} for a directory with entries unless `recursive`, as POSIX
+   * allows `rmdir` to report.
+   */
+  remove(path: string, options?: { recursive?: boolean }): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  /** Copies a file, or a directory with its descendants. */
+  copy(from: string, to: string): Promise<void>;
+  /** Reports the changes made after it returns. */
+  watch(path: string, options: { recursive: boolean }): StorageWatcher;
+}
+
+/** The local file system. */
+export class FsStorage implements Storage {
+  stat(path: string) {
+    return Deno.stat(path);
+  }
+
+  realPath(path: string) {
+    return Deno.realPath(path);
+  }
+
+  async read(path: string) {
+    const file = await Deno.open(path);
+    return file.readable;
+  }
+
+  async write(
+    path: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+    { signal }: { signal?: AbortSignal } = {},
+  ) {
+    if (data instanceof Uint8Array) {
+      await Deno.writeFile(path, data, { signal });
+      return;
+    }
+
+    const file = await Deno.open(path, { create: true, truncate: true, write: true });
+    await data.pipeTo(file.writable, { signal });
+  }
+
+  async setModified(path: string, mtime: Date) {
+    await Deno.utime(path, mtime, mtime);
+  }
+
+  async *list(path: string, { maxDepth, skip }: { maxDepth: number; skip?: RegExp[] }) {
+    // `walk` reads any path as a directory.
+    if (!(await Deno.stat(path)).isDirectory) {
+      if (!skip?.some((x) => x.test(path))) {
+        yield path;
+      }
+      return;
+    }
+
+    for await (const entry of walk(path, { maxDepth, skip })) {
+      yield entry.path;
+    }
+  }
+
+  async mkdir(path: string, options?: { recursive?: boolean }) {
+    await Deno.mkdir(path, options);
+  }
+
+  async remove(path: string, options?: { recursive?: boolean }) {
+    try {
+      await Deno.remove(path, options);
+    } catch (error) {
+      // Deno has no error class for it.
+      if (error instanceof Error && (error as { code?: string }).code === "ENOTEMPTY") {
+        throw new Deno.errors.AlreadyExists(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async rename(from: string, to: string) {
+    await Deno.rename(from, to);
+  }
+
+  async copy(from: string, to: string) {
+    if ((await Deno.stat(from)).isDirectory) {
+      await copyDirectory(from, to);
+    } else {
+      await Deno.copyFile(from, to);
+    }
+  }
+
+  watch(path: string, options: { recursive: boolean }) {
+    return Deno.watchFs(path, options);
+  }
+}
@@ -1,8 +1,9 @@
-import { resolve } from "jsr:@std/path";
+import { delay } from "jsr:@std/async/delay";
+import { join, resolve } from "jsr:@std/path";
 import { returnsNext, stub } from "jsr:@std/testing/mock";
 import { FakeTime } from "jsr:@std/testing/time";
-import { assertEquals } from "../tool/deps.ts";
-import { FsSubscriber, toSubscription } from "./subscription_handler.ts";
+import { assertEquals, assertRejects } from "../tool/deps.ts";
+import { FeedOverflowError, FsSubscriber, toSubscription } from "./subscription_handler.ts";
 
 Deno.test("Given plain request", async (test) => {
   const request = new Request(`http://localhost:8000/`);
@@ -192,6 +193,35 @@ Deno.test("Given a directory", async (test) => {
   time.restore();
 });
 
+Deno.test("Given a journaling directory", async (test) => {
+  const root = await Deno.makeTempDir();
+  using subscriber = new FsSubscriber(root);
+
+  await test.step("when a file changes right after the first cursor", async (test) => {
+    const cursor = subscriber.cursor;
+    await Deno.writeTextFile(join(root, "a.user.js"), "// a");
+    await delay(1000);
+
+    await test.step("it should be journaled after the cursor", () => {
+      assertEquals(subscriber.changesSince(cursor), new Set(["a.user.js"]));
+    });
+  });
+
+  await test.step("when a feed reader falls behind its limit", async (test) => {
+    const reader = subscriber.feed({ maxPending: 1 }).getReader();
+    await Deno.writeTextFile(join(root, "b.user.js"), "// b");
+    await delay(1000);
+    await Deno.writeTextFile(join(root, "c.user.js"), "// c");
+    await delay(1000);
+
+    await test.step("it should error the feed", async () => {
+      await assertRejects(() => reader.read(), FeedOverflowError);
+    });
+  });
+
+  await Deno.remove(root, { recursive: true });
+});
+
 class MockFsWatcher implements Deno.FsWatcher {
   #resolver = Promise.withResolvers<Deno.FsEvent>();
 
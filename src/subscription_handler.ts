@@ -1,6 +1,16 @@
 import { debounce } from "jsr:@std/async/debounce";
 import { relative, resolve } from "jsr:@std/path";
 import { normalize } from "jsr:@std/path/posix";
+import { METADATA_DIRECTORY } from "./dav_server/paths.ts";
+import { FsStorage, type Storage, type StorageWatcher } from "./storage.ts";
+
+/** A feed's reader fell too far behind, and has to resume from its last cursor. */
+export class FeedOverflowError extends Error {
+  constructor() {
+    super("The feed reader fell too far behind");
+    this.name = "FeedOverflowError";
+  }
+}
 
 export type SubscriptionRequest = {
   /** relative path */
@@ -27,16 +37,101 @@ function getDepth(request: Request) {
   return Number(request.headers.get("depth") ?? 0);
 }
 
+/** How many changes are kept for cursor based sync. */
+const JOURNAL_LIMIT = 10000;
+
+export type Change = {
+  cursor: number;
+  /** relative path */
+  path: string;
+  /** Changes made by the server itself are reported as `modify`. */
+  kind: "create" | "modify" | "remove" | "rename";
+};
+
 export class FsSubscriber implements Disposable {
   readonly #root: string;
+  readonly #storage: Storage;
+
+  /** Changes under the root in order, for cursor based sync. */
+  readonly #journal: Change[] = [];
+  /** Cursors older than this can't be answered from the journal. */
+  #journalStart?: number;
+  /** Starts from the current time so that cursors of a previous run are never mistaken. */
+  #cursor = Date.now();
 
   readonly #changes = new Set<string>();
+  /** Journaled changes not yet passed to feeds. */
+  #unnotified: Change[] = [];
+  readonly #feeds = new Set<ReadableStreamDefaultController<Change[]>>();
   readonly #requests = new Set<SubscriptionRequest>();
   readonly #resolvers = new Map<SubscriptionRequest, PromiseWithResolvers<Set<string>>>();
-  readonly #watchers = new Map<string, Deno.FsWatcher>();
+  readonly #watchers = new Map<string, StorageWatcher>();
+  /** Set once the server is shutting down. */
+  #draining = false;
 
-  constructor(root: string) {
+  /** @param storage where files are kept, the file system by default. */
+  constructor(root: string, storage: Storage = new FsStorage()) {
     this.#root = resolve(root);
+    this.#storage = storage;
+  }
+
+  /** Long-poll subscriptions waiting for changes. */
+  get subscriptionCount(): number {
+    return this.#requests.size;
+  }
+
+  get watcherCount(): number {
+    return this.#watchers.size;
+  }
+
+  /** The latest cursor. The first access starts journaling every change under the root. */
+  get cursor(): number {
+    this.#startJournal();
+    return this.#cursor;
+  }
+
+  /**
+   * @param path relative path to filter changes with.
+   * @returns relative paths changed after `cursor`, or undefined if the journal can't tell.
+   */
+  changesSince(cursor: number, path = "."): Set<string> | undefined {
+    const entries = this.entriesSince(cursor, path);
+    return entries && new Set(entries.map((x) => x.path));
+  }
+
+  /** Like {@link changesSince}, but keeps every journal entry in order. */
+  entriesSince(cursor: number, path = "."): Change[] | undefined {
+    const isKnown = this.#journalStart !== undefined && this.#journalStart <= cursor &&
+      cursor <= this.#cursor;
+    if (!isKnown) {
+      return;
+    }
+    return this.#journal.filter((x) => x.cursor > cursor && isRelated(path, x.path));
+  }
+
+  /**
+   * Streams the same debounced change sets SUBSCRIBE sees, until the stream is cancelled
+   * or the subscriber is disposed.
+   * @param maxPending change sets the reader may fall behind by before the stream errors with
+   * {@link FeedOverflowError}. Unbounded by default.
+   */
+  feed({ maxPending = Infinity }: { maxPending?: number } = {}): ReadableStream<Change[]> {
+    this.#startJournal();
+
+    let feed: ReadableStreamDefaultController<Change[]>;
+    return new ReadableStream({
+      start: (controller) => {
+        feed = controller;
+        if (this.#draining) {
+          controller.close();
+          return;
+        }
+        this.#feeds.add(feed);
+      },
+      cancel: () => {
+        this.#feeds.delete(feed);
+      },
+    }, { highWaterMark: maxPending });
   }
 
   async subscribe(request: SubscriptionRequest): Promise<Set<string>> {
@@ -45,6 +140,9 @@ export class FsSubscriber implements Disposable {
     if (signal.aborted) {
       return Promise.reject(signal.reason);
     }
+    if (this.#draining) {
+      return new Set();
+    }
 
     signal.addEventListener("abort", () => {
       this.#resolvers.get(request)?.reject(signal.reason);
@@ -69,8 +167,39 @@ export class FsSubscriber implements Disposable {
     }
   }
 
+  /**
+   * Reports changes the server made by itself, so that subscribers see both sides of a rename
+   * even if the watcher doesn't pair them up.
+   * @param paths absolute paths
+   */
+  publish(paths: Iterable<string>) {
+    for (const path of paths) {
+      this.#record(this.#toRelative(path), "modify");
+    }
+    this.#notify();
+  }
+
+  /**
+   * Passes pending changes on, then ends every subscription with no changes and closes the feeds
+   * so that open requests can finish before shutdown. Later ones end right away.
+   */
+  drain() {
+    this.#draining = true;
+    this.#notify.flush();
+
+    for (const resolver of this.#resolvers.values()) {
+      resolver.resolve(new Set());
+    }
+    for (const feed of this.#feeds) {
+      feed.close();
+    }
+    this.#feeds.clear();
+  }
+
   [Symbol.dispose](): void {
     this.#changes.clear();
+    this.#journal.length = 0;
+    this.#unnotified = [];
     this.#requests.clear();
     this.#notify.clear();
 
@@ -80,22 +209,31 @@ export class FsSubscriber implements Disposable {
     }
     this.#resolvers.clear();
 
+    for (const feed of this.#feeds) {
+      feed.close();
+    }
+    this.#feeds.clear();
+
     for (const watcher of this.#watchers.values()) {
       watcher.close();
     }
     this.#watchers.clear();
   }
 
-  async #watch(path: string, { recursive }: { recursive: boolean }) {
+  /** Starts watching before it returns, and reads the events in the background. */
+  #watch(path: string, { recursive }: { recursive: boolean }) {
     const id = `${path}-${recursive ? "/**" : ""}`;
     if (this.#watchers.has(id)) {
       return;
     }
 
     const target = resolve(this.#root, path);
-    const watcher = Deno.watchFs(target, { recursive });
+    const watcher = this.#storage.watch(target, { recursive });
     this.#watchers.set(id, watcher);
+    this.#readEvents(watcher);
+  }
 
+  async #readEvents(watcher: StorageWatcher) {
     const trivialKinds: Deno.FsEvent["kind"][] = ["access", "any", "other"];
 
     for await (const event of watcher) {
@@ -104,14 +242,43 @@ export class FsSubscriber implements Disposable {
       }
 
       for (const path of event.paths) {
-        const relativePath = relative(this.#root, path).replace(/\\/g, "/");
-        this.#changes.add(relativePath);
+        const relativePath = this.#toRelative(path);
+        if (relativePath.split("/")[0] !== METADATA_DIRECTORY) {
+          this.#record(relativePath, event.kind as Change["kind"]);
+        }
       }
 
       this.#notify();
     }
   }
 
+  /** The watcher is running before the first cursor is handed out, so nothing after it is lost. */
+  #startJournal() {
+    if (this.#journalStart === undefined) {
+      this.#watch(".", { recursive: true });
+      this.#journalStart = this.#cursor;
+    }
+  }
+
+  #record(path: string, kind: Change["kind"]) {
+    this.#changes.add(path);
+    if (this.#journalStart === undefined) {
+      return;
+    }
+
+    const change = { cursor: ++this.#cursor, path, kind };
+    this.#journal.push(change);
+    this.#unnotified.push(change);
+    if (this.#journal.length > JOURNAL_LIMIT) {
+      const dropped = this.#journal.splice(0, this.#journal.length - JOURNAL_LIMIT);
+      this.#journalStart = dropped[dropped.length - 1].cursor;
+    }
+  }
+
+  #toRelative(path: string) {
+    return relative(this.#root, path).replace(/\\/g, "/");
+  }
+
   #notify = debounce(() => {
     if (this.#changes.size === 0) {
       return;
@@ -121,13 +288,9 @@ export class FsSubscriber implements Disposable {
       const paths = new Set<string>();
 
       for (const path of this.#changes) {
-        const isSubPath = path.startsWith(`${request.path}/`) || request.path === ".";
-        const isNotRelated = path !== request.path && !isSubPath;
-        if (isNotRelated) {
-          continue;
+        if (isRelated(request.path, path)) {
+          paths.add(path);
         }
-
-        paths.add(path);
       }
 
       const resolver = this.#resolvers.get(request);
@@ -138,6 +301,23 @@ export class FsSubscriber implements Disposable {
       resolver.resolve(paths);
     }
 
+    if (this.#unnotified.length) {
+      for (const feed of this.#feeds) {
+        if (feed.desiredSize !== null && feed.desiredSize <= 0) {
+          this.#feeds.delete(feed);
+          feed.error(new FeedOverflowError());
+          continue;
+        }
+        feed.enqueue(this.#unnotified);
+      }
+    }
+
+    this.#unnotified = [];
     this.#changes.clear();
   }, 500);
 }
+
+/** Whether `path` is `base` or below it. Both are relative to the root. */
+function isRelated(base: string, path: string) {
+  return base === "." || path === base || path.startsWith(`${base}/`);
+}
@@ -0,0 +1,34 @@
+import { assertEquals } from "../tool/deps.ts";
+import { guardPlainHttp } from "./tls.ts";
+
+Deno.test("Given plain HTTP next to HTTPS with credentials", async (test) => {
+  const handler = () => new Response("served");
+  const info = {} as Deno.ServeHandlerInfo;
+
+  await test.step("when redirect mode gets a request", async (test) => {
+    const guarded = guardPlainHttp(handler, {
+      mode: "redirect",
+      httpsPort: 7443,
+      hasCredentials: true,
+    });
+    const response = await guarded(new Request("http://localhost:7000/foo.user.js?a=1"), info);
+
+    await test.step("should redirect to the same resource over HTTPS", () => {
+      assertEquals(response.status, 308);
+      assertEquals(response.headers.get("location"), "https://localhost:7443/foo.user.js?a=1");
+    });
+  });
+
+  await test.step("when refuse mode gets a request", async (test) => {
+    const guarded = guardPlainHttp(handler, {
+      mode: "refuse",
+      httpsPort: 7443,
+      hasCredentials: true,
+    });
+    const response = await guarded(new Request("http://localhost:7000/"), info);
+
+    await test.step("should refuse it", () => {
+      assertEquals(response.status, 403);
+    });
+  });
+});
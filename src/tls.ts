@@ -0,0 +1,91 @@
+import { join } from "jsr:@std/path";
+import { METADATA_DIRECTORY } from "./dav_server/paths.ts";
+
+/** PEM encoded certificate chain and private key, as `Deno.serve` takes them. */
+export type Certificate = { cert: string; key: string };
+
+/** What the plain HTTP listener does when credentials would travel in cleartext. */
+export type PlainHttpMode = "redirect" | "refuse";
+
+export async function readCertificate(certPath: string, keyPath: string): Promise<Certificate> {
+  const [cert, key] = await Promise.all([Deno.readTextFile(certPath), Deno.readTextFile(keyPath)]);
+  return { cert, key };
+}
+
+/**
+ * Reads the self-signed certificate for localhost kept in the metadata directory of `root`,
+ * generating it with `openssl` on first use.
+ */
+export async function getSelfSignedCertificate(root: string): Promise<Certificate> {
+  const directory = join(root, METADATA_DIRECTORY, "tls");
+  const certPath = join(directory, "cert.pem");
+  const keyPath = join(directory, "key.pem");
+  try {
+    return await readCertificate(certPath, keyPath);
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  await Deno.mkdir(directory, { recursive: true, mode: 0o700 });
+  const command = new Deno.Command("openssl", {
+    args: [
+      "req",
+      "-x509",
+      "-newkey",
+      "ec",
+      "-pkeyopt",
+      "ec_paramgen_curve:prime256v1",
+      "-nodes",
+      "-days",
+      "825",
+      "-subj",
+      "/CN=localhost",
+      "-addext",
+      "subjectAltName=DNS:localhost,IP:127.0.0.1,IP:::1",
+      "-keyout",
+      keyPath,
+      "-out",
+      certPath,
+    ],
+    stdin: "null",
+  });
+  const { success, stderr } = await command.output();
+  if (!success) {
+    throw new Error(`openssl failed: ${new TextDecoder().decode(stderr)}`);
+  }
+  if (Deno.build.os !== "windows") {
+    await Deno.chmod(keyPath, 0o600);
+  }
+  return await readCertificate(certPath, keyPath);
+}
+
+/**
+ * Serves plain HTTP next to HTTPS. Requests are sent to `handler` as is if no credentials are
+ * configured, and otherwise redirected to `httpsPort` or refused before they can be used.
+ */
+export function guardPlainHttp(
+  handler: Deno.ServeHandler,
+  { mode, httpsPort, hasCredentials }: {
+    mode: PlainHttpMode;
+    httpsPort: number;
+    hasCredentials: boolean;
+  },
+): Deno.ServeHandler {
+  if (!hasCredentials) {
+    return handler;
+  }
+
+  return (request) => {
+    if (mode === "refuse") {
+      return new Response("Use HTTPS, as credentials are required", { status: 403 });
+    }
+
+    const url = new URL(request.url);
+    url.protocol = "https:";
+    url.port = `${httpsPort}`;
+    // 308 keeps the method and the body, unlike 301.
+    return new Response(null, { status: 308, headers: { Location: url.href } });
+  };
+}
@@ -0,0 +1,126 @@
+import { parseArgs } from "jsr:@std/cli/parse-args";
+import { TextLineStream } from "jsr:@std/streams/text-line-stream";
+import { UserStore } from "./auth.ts";
+
+const USAGE = `Usage: tamperdav user <add|remove|passwd|list> [name] [--users=path]
+Manages the accounts of the users file (default: users.json).
+
+Passwords are prompted for, or read from the first line of the standard input if it's not a
+terminal. Start the server with --users=[path] to use the file.`;
+
+/**
+ * Runs `tamperdav user ...`.
+ * @returns the exit code.
+ */
+export async function runUserCommand(args: string[]): Promise<number> {
+  const { _: [action, name], users = "users.json", help } = parseArgs(args, {
+    string: ["users"],
+    boolean: ["help"],
+  });
+
+  const store = new UserStore(users);
+  if (help || !action) {
+    console.info(USAGE);
+    return help ? 0 : 1;
+  }
+  if (action === "list") {
+    console.info((await store.list()).join("\n"));
+    return 0;
+  }
+  if (typeof name !== "string" || !name || name.includes(":")) {
+    console.error("A user name without colons is required.");
+    return 1;
+  }
+
+  const exists = (await store.list()).includes(name);
+  switch (action) {
+    case "add":
+    case "passwd": {
+      if (action === "add" && exists) {
+        console.error(`${name} already exists. Use passwd to change the password.`);
+        return 1;
+      }
+      if (action === "passwd" && !exists) {
+        console.error(`${name} doesn't exist.`);
+        return 1;
+      }
+
+      const password = await readNewPassword();
+      if (password === undefined) {
+        return 1;
+      }
+      await store.setPassword(name, password);
+      console.info(`${action === "add" ? "Added" : "Changed the password of"} ${name}.`);
+      return 0;
+    }
+    case "remove":
+      if (!await store.remove(name)) {
+        console.error(`${name} doesn't exist.`);
+        return 1;
+      }
+      console.info(`Removed ${name}.`);
+      return 0;
+  }
+
+  console.error(`Unknown action: ${action}\n\n${USAGE}`);
+  return 1;
+}
+
+async function readNewPassword() {
+  if (!Deno.stdin.isTerminal()) {
+    const lines = Deno.stdin.readable
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(new TextLineStream());
+    for await (const line of lines) {
+      return line;
+    }
+    console.error("No password is given.");
+    return;
+  }
+
+  const password = await readHidden("Password: ");
+  if (!password) {
+    console.error("The password must not be empty.");
+    return;
+  }
+  if (await readHidden("Retype password: ") !== password) {
+    console.error("The passwords don't match.");
+    return;
+  }
+  return password;
+}
+
+/** Reads a line from the terminal without echoing it. */
+async function readHidden(message: string) {
+  const encoder = new TextEncoder();
+  await Deno.stdout.write(encoder.encode(message));
+  Deno.stdin.setRaw(true);
+
+  const bytes: number[] = [];
+  const buffer = new Uint8Array(16);
+  try {
+    while (true) {
+      const count = await Deno.stdin.read(buffer);
+      if (count === null) {
+        break;
+      }
+      for (const byte of buffer.subarray(0, count)) {
+        if (byte === 0x03) {
+          throw new Deno.errors.Interrupted("Cancelled");
+        }
+        if (byte === 0x0d || byte === 0x0a) {
+          return new TextDecoder().decode(new Uint8Array(bytes));
+        }
+        if (byte === 0x7f || byte === 0x08) {
+          bytes.pop();
+        } else {
+          bytes.push(byte);
+        }
+      }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+  } finally {
+    Deno.stdin.setRaw(false);
+    await Deno.stdout.write(encoder.encode("\n"));
+  }
+}
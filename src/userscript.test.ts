@@ -0,0 +1,52 @@
+import { assertEquals } from "../tool/deps.ts";
+import { parseHeader, parseMeta } from "./userscript.ts";
+
+Deno.test("Given a userscript", async (test) => {
+  const source = `// ==UserScript==
+// @name         Cut remover
+// @name:ko      컷 제거
+// @version      0.1
+// @match        https://a.com/*
+// @match        https://b.com/*
+// @grant        none
+// @noframes
+// ==/UserScript==
+
+console.log("// @name Not this");
+`;
+
+  await test.step("when parse the header", async (test) => {
+    const header = parseHeader(source);
+
+    await test.step("should read single values", () => {
+      assertEquals(header?.name, "Cut remover");
+      assertEquals(header?.version, "0.1");
+    });
+
+    await test.step("should read every repeated value", () => {
+      assertEquals(header?.match, ["https://a.com/*", "https://b.com/*"]);
+    });
+
+    await test.step("should keep other keys", () => {
+      assertEquals(header?.metadata["name:ko"], ["컷 제거"]);
+      assertEquals(header?.metadata.noframes, [""]);
+    });
+  });
+});
+
+Deno.test("Given meta files", async (test) => {
+  await test.step("when parse a removed one", async (test) => {
+    const meta = parseMeta('{"uuid":"b31a","name":"removed script","options":{"removed":true}}');
+
+    await test.step("should be removed", () => {
+      assertEquals(meta?.options.removed, true);
+    });
+  });
+
+  await test.step("when parse one without uuid", async (test) => {
+    await test.step("should be rejected", () => {
+      assertEquals(parseMeta('{"name":"x"}'), undefined);
+      assertEquals(parseMeta("not json"), undefined);
+    });
+  });
+});
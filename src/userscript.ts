@@ -0,0 +1,95 @@
+/** Values of each `// @key value` line in the `==UserScript==` block, in order. */
+export type UserscriptMetadata = Record<string, string[]>;
+
+/** Well-known keys of the `==UserScript==` block. */
+export type UserscriptHeader = {
+  name?: string;
+  namespace?: string;
+  version?: string;
+  description?: string;
+  author?: string;
+  runAt?: string;
+  match: string[];
+  include: string[];
+  exclude: string[];
+  grant: string[];
+  require: string[];
+  resource: string[];
+  connect: string[];
+  /** Every key including the ones above, e.g. localized names like `name:ja`. */
+  metadata: UserscriptMetadata;
+};
+
+/** `.meta.json` Tampermonkey writes next to each synced script. */
+export type TampermonkeyMeta = {
+  uuid: string;
+  name?: string;
+  /** Whether the script is enabled in the browser, if reported. */
+  enabled?: boolean;
+  /** Epoch milliseconds. */
+  lastModified?: number;
+  options: {
+    /** Set instead of deleting the files when the script is removed in the browser. */
+    removed?: boolean;
+    [key: string]: unknown;
+  };
+};
+
+/** @returns undefined if there is no metadata block. */
+export function parseMetadata(source: string): UserscriptMetadata | undefined {
+  const block = source.match(/\/\/\s*==UserScript==([\s\S]*?)\/\/\s*==\/UserScript==/)?.[1];
+  if (block === undefined) {
+    return;
+  }
+
+  const metadata: UserscriptMetadata = {};
+  for (const line of block.split(/\r?\n/)) {
+    const match = line.match(/^\s*\/\/\s*@(\S+)(?:\s+(.*?))?\s*$/);
+    if (match) {
+      const [, key, value = ""] = match;
+      (metadata[key] ??= []).push(value);
+    }
+  }
+  return metadata;
+}
+
+/** @returns undefined if there is no metadata block. */
+export function parseHeader(source: string): UserscriptHeader | undefined {
+  const metadata = parseMetadata(source);
+  if (!metadata) {
+    return;
+  }
+
+  return {
+    name: metadata.name?.[0],
+    namespace: metadata.namespace?.[0],
+    version: metadata.version?.[0],
+    description: metadata.description?.[0],
+    author: metadata.author?.[0],
+    runAt: metadata["run-at"]?.[0],
+    match: metadata.match ?? [],
+    include: metadata.include ?? [],
+    exclude: metadata.exclude ?? [],
+    grant: metadata.grant ?? [],
+    require: metadata.require ?? [],
+    resource: metadata.resource ?? [],
+    connect: metadata.connect ?? [],
+    metadata,
+  };
+}
+
+/** @returns undefined if it's not a Tampermonkey meta file. */
+export function parseMeta(json: string): TampermonkeyMeta | undefined {
+  let value;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return;
+  }
+  if (typeof value?.uuid !== "string") {
+    return;
+  }
+
+  const options = typeof value.options === "object" && value.options ? value.options : {};
+  return { ...value, options };
+}
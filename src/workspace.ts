@@ -0,0 +1,129 @@
+import { relative, resolve, SEPARATOR } from "jsr:@std/path";
+import { History, type HistoryRetention } from "./dav_server/history.ts";
+import { isInside, METADATA_DIRECTORY } from "./dav_server/paths.ts";
+import { PropertyStore } from "./dav_server/property_store.ts";
+import { WriteQueue } from "./dav_server/write_queue.ts";
+import { GitRecorder } from "./git_recorder.ts";
+import { ScriptIndex } from "./script_index.ts";
+import { ScriptMirror } from "./script_mirror.ts";
+import type { Storage } from "./storage.ts";
+import { FsSubscriber } from "./subscription_handler.ts";
+
+/** Directory of a user relative to the server root, and whether the user may only read it. */
+export type WorkspaceMapping = string | { path: string; "read-only"?: boolean };
+
+export type WorkspaceLocation = { path: string; readOnly: boolean };
+
+/** Directory of the per-user directories, apart from the mapped ones so that names can't collide. */
+export const USERS_DIRECTORY = "users";
+
+/**
+ * Finds where a user works. Users listed in `workspaces` get their mapping, and the others get
+ * the directory of their name under {@link USERS_DIRECTORY} if `perUser`, or else the root itself.
+ * @returns undefined if the user is anonymous while users are isolated.
+ */
+export function getWorkspaceLocation(
+  user: string,
+  { perUser, workspaces = {} }: {
+    perUser?: boolean;
+    workspaces?: Record<string, WorkspaceMapping>;
+  },
+): WorkspaceLocation | undefined {
+  const mapping = Object.hasOwn(workspaces, user) ? workspaces[user] : undefined;
+  if (typeof mapping === "string") {
+    return { path: mapping, readOnly: false };
+  }
+  if (mapping) {
+    return { path: mapping.path, readOnly: !!mapping["read-only"] };
+  }
+
+  if (!perUser && Object.keys(workspaces).length === 0) {
+    return { path: "", readOnly: false };
+  }
+  if (!user) {
+    return;
+  }
+  // Keeps names like `..` or `.tamperdav` from pointing elsewhere.
+  const name = encodeURIComponent(user).replace(/^\./, "%2E");
+  return { path: `${USERS_DIRECTORY}/${name}`, readOnly: false };
+}
+
+/** Throws if a mapping points outside of the root or into its metadata directory. */
+export function validateWorkspaces(root: string, workspaces: Record<string, WorkspaceMapping>) {
+  for (const [user, mapping] of Object.entries(workspaces)) {
+    const path = resolve(root, typeof mapping === "string" ? mapping : mapping.path);
+    const isMetadata = relative(root, path).split(SEPARATOR)[0] === METADATA_DIRECTORY;
+    if (!isInside(root, path) || isMetadata) {
+      throw new Error(`The workspace of ${user} is outside of ${root}`);
+    }
+  }
+}
+
+/** Everything bound to one served directory, shared by the users working there. */
+export class Workspace implements Disposable {
+  readonly root: string;
+  readonly storage: Storage;
+  readonly subscriber: FsSubscriber;
+  readonly properties: PropertyStore;
+  /** Serializes conditional writes to each path. */
+  readonly writes = new WriteQueue();
+  readonly history?: History;
+  readonly git?: GitRecorder;
+  readonly mirror?: ScriptMirror;
+  #scripts?: ScriptIndex;
+
+  constructor(
+    root: string,
+    storage: Storage,
+    { history, git, mirror, metaTouch }: {
+      history?: HistoryRetention;
+      git?: boolean;
+      /** Mirror directory of this workspace. */
+      mirror?: string;
+      metaTouch?: boolean;
+    },
+  ) {
+    this.root = resolve(root);
+    this.storage = storage;
+    this.subscriber = new FsSubscriber(this.root, storage);
+    this.properties = new PropertyStore(this.root, storage);
+
+    const subscriber = this.subscriber;
+    if (history) {
+      this.history = new History(this.root, storage, history);
+    }
+    if (git) {
+      this.git = new GitRecorder(this.root, { storage, subscriber });
+    }
+    if (mirror) {
+      this.mirror = new ScriptMirror(this.root, {
+        directory: mirror,
+        storage,
+        subscriber,
+        history: this.history,
+        metaTouch,
+      });
+    }
+  }
+
+  /** Made on first use, as it reads every script. */
+  get scripts(): ScriptIndex {
+    this.#scripts ??= new ScriptIndex(this.root, {
+      storage: this.storage,
+      subscriber: this.subscriber,
+    });
+    return this.#scripts;
+  }
+
+  /** Resolves after pending commits and mirror syncs. */
+  async settle(): Promise<void> {
+    await Promise.all([this.git?.settle(), this.mirror?.settle()]);
+  }
+
+  [Symbol.dispose](): void {
+    this.git?.[Symbol.dispose]();
+    this.mirror?.[Symbol.dispose]();
+    this.#scripts?.[Symbol.dispose]();
+    this.subscriber[Symbol.dispose]();
+  }
+}
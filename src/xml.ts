@@ -0,0 +1,220 @@
+import { elementWithAttributes, raw, serialize } from "./xml_builder.ts";
+
+export const DAV_NAMESPACE = "DAV:";
+
+export type XmlElement = {
+  /** Namespace URI, empty if the element has none. */
+  namespace: string;
+  /** Local name without prefix. */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly under this element. */
+  text: string;
+};
+
+export class XmlSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlSyntaxError";
+  }
+}
+
+/**
+ * Parses the small XML documents WebDAV clients send.
+ * Namespace prefixes are resolved, comments and processing instructions are skipped
+ * and document type declarations are rejected.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: { element: XmlElement; namespaces: Map<string, string>; qualified: string }[] = [];
+  let root: XmlElement | undefined;
+  let index = 0;
+
+  while (index < source.length) {
+    const tagStart = source.indexOf("<", index);
+    const text = source.slice(index, tagStart === -1 ? undefined : tagStart);
+    if (stack.length) {
+      stack[stack.length - 1].element.text += decodeEntities(text);
+    } else if (text.trim()) {
+      throw new XmlSyntaxError("Text outside of the root element");
+    }
+    if (tagStart === -1) {
+      break;
+    }
+
+    if (source.startsWith("<?", tagStart)) {
+      index = skipPast(source, tagStart, "?>");
+    } else if (source.startsWith("<!--", tagStart)) {
+      index = skipPast(source, tagStart, "-->");
+    } else if (source.startsWith("<![CDATA[", tagStart)) {
+      const end = skipPast(source, tagStart, "]]>");
+      if (!stack.length) {
+        throw new XmlSyntaxError("CDATA outside of the root element");
+      }
+      stack[stack.length - 1].element.text += source.slice(tagStart + 9, end - 3);
+      index = end;
+    } else if (source.startsWith("<!", tagStart)) {
+      throw new XmlSyntaxError("Document type declarations are not supported");
+    } else if (source.startsWith("</", tagStart)) {
+      const end = skipPast(source, tagStart, ">");
+      const qualified = source.slice(tagStart + 2, end - 1).trim();
+      const open = stack.pop();
+      if (open?.qualified !== qualified) {
+        throw new XmlSyntaxError(`Unexpected closing tag: ${qualified}`);
+      }
+      if (!stack.length) {
+        root = open.element;
+      }
+      index = end;
+    } else {
+      const end = findTagEnd(source, tagStart);
+      const isSelfClosing = source[end - 2] === "/";
+      const content = source.slice(tagStart + 1, isSelfClosing ? end - 2 : end - 1);
+      const { qualified, attributes } = parseTag(content);
+
+      if (root) {
+        throw new XmlSyntaxError("Multiple root elements");
+      }
+      const parentNamespaces = stack[stack.length - 1]?.namespaces ?? new Map<string, string>();
+      const namespaces = new Map(parentNamespaces);
+      for (const [key, value] of Object.entries(attributes)) {
+        if (key === "xmlns") {
+          namespaces.set("", value);
+        } else if (key.startsWith("xmlns:")) {
+          namespaces.set(key.slice(6), value);
+        }
+      }
+
+      const element: XmlElement = {
+        ...resolveName(qualified, namespaces),
+        attributes,
+        children: [],
+        text: "",
+      };
+      stack[stack.length - 1]?.element.children.push(element);
+
+      if (isSelfClosing) {
+        if (!stack.length) {
+          root = element;
+        }
+      } else {
+        stack.push({ element, namespaces, qualified });
+      }
+      index = end;
+    }
+  }
+
+  if (!root || stack.length) {
+    throw new XmlSyntaxError("Unexpected end of document");
+  }
+  return root;
+}
+
+/** Finds the first child with the given name, in the DAV: namespace unless specified. */
+export function findChild(
+  element: XmlElement,
+  name: string,
+  namespace = DAV_NAMESPACE,
+): XmlElement | undefined {
+  return element.children.find((x) => x.name === name && x.namespace === namespace);
+}
+
+/** Serializes an element back to text, declaring namespaces where they are used. */
+export function serializeXml(element: XmlElement): string {
+  const attributes = Object.fromEntries(
+    Object.entries(element.attributes).filter(([key]) => !key.includes(":") && key !== "xmlns"),
+  );
+  return serialize(
+    elementWithAttributes(
+      element.name,
+      { xmlns: element.namespace, ...attributes },
+      raw(serializeContent(element)),
+    ),
+  );
+}
+
+/** Serializes what's inside an element, without the element itself. */
+export function serializeContent(element: XmlElement): string {
+  return serialize([element.text.trim(), ...element.children.map((x) => raw(serializeXml(x)))]);
+}
+
+function skipPast(source: string, start: number, terminator: string) {
+  const end = source.indexOf(terminator, start);
+  if (end === -1) {
+    throw new XmlSyntaxError(`Missing ${terminator}`);
+  }
+  return end + terminator.length;
+}
+
+function findTagEnd(source: string, start: number) {
+  let quote: string | undefined;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i + 1;
+    }
+  }
+  throw new XmlSyntaxError("Unterminated tag");
+}
+
+function parseTag(content: string) {
+  const match = content.match(/^\s*([^\s/>]+)/);
+  if (!match) {
+    throw new XmlSyntaxError(`Invalid tag: <${content}>`);
+  }
+
+  const attributes: Record<string, string> = {};
+  const rest = content.slice(match[0].length);
+  const attributePattern = /\s*([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/gy;
+  let lastIndex = 0;
+  for (const attribute of rest.matchAll(attributePattern)) {
+    attributes[attribute[1]] = decodeEntities(attribute[3] ?? attribute[4]);
+    lastIndex = attribute.index + attribute[0].length;
+  }
+  if (rest.slice(lastIndex).trim()) {
+    throw new XmlSyntaxError(`Invalid attributes: <${content}>`);
+  }
+
+  return { qualified: match[1], attributes };
+}
+
+function resolveName(qualified: string, namespaces: Map<string, string>) {
+  const colon = qualified.indexOf(":");
+  const prefix = colon === -1 ? "" : qualified.slice(0, colon);
+  const namespace = namespaces.get(prefix);
+  if (prefix && namespace === undefined) {
+    throw new XmlSyntaxError(`Undeclared namespace prefix: ${prefix}`);
+  }
+  return { namespace: namespace ?? "", name: qualified.slice(colon + 1) };
+}
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|lt|gt|amp|quot|apos);/gi, (entity, body: string) => {
+    switch (body) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+    }
+    const codePoint = body[1] === "x" || body[1] === "X"
+      ? parseInt(body.slice(2), 16)
+      : parseInt(body.slice(1), 10);
+    try {
+      return String.fromCodePoint(codePoint);
+    } catch {
+      return entity;
+    }
+  });
+}
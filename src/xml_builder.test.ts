@@ -0,0 +1,58 @@
+import { assertEquals } from "../tool/deps.ts";
+import { parseXml } from "./xml.ts";
+import { element, elementWithAttributes, encodeHref, raw, serialize } from "./xml_builder.ts";
+
+Deno.test("Given names with special characters", async (test) => {
+  const cases = [
+    { name: "plain.user.js", href: "plain.user.js" },
+    { name: "a & b <c>.user.js", href: "a%20%26%20b%20%3Cc%3E.user.js" },
+    { name: "100% #1?.user.js", href: "100%25%20%231%3F.user.js" },
+    { name: "한글.user.js", href: "%ED%95%9C%EA%B8%80.user.js" },
+    { name: "😀.user.js", href: "%F0%9F%98%80.user.js" },
+    { name: "semi;colon:at@.user.js", href: "semi%3Bcolon%3Aat%40.user.js" },
+  ];
+
+  for (const { name, href } of cases) {
+    await test.step(`when encode '${name}' as href`, async (test) => {
+      const encoded = encodeHref(`/dir/${name}`);
+
+      await test.step("each segment should be percent-encoded", () => {
+        assertEquals(encoded, `/dir/${href}`);
+      });
+
+      await test.step("it should decode back to the name", () => {
+        assertEquals(decodeURIComponent(encoded), `/dir/${name}`);
+      });
+    });
+
+    await test.step(`when put '${name}' in an element`, async (test) => {
+      const xml = serialize(element("d:displayname", name));
+
+      await test.step("it should be well-formed and keep the text", () => {
+        assertEquals(parseXml(`<r xmlns:d="DAV:">${xml}</r>`).children[0].text, name);
+      });
+    });
+  }
+});
+
+Deno.test("Given nested content", async (test) => {
+  await test.step("when serialize", async (test) => {
+    const xml = serialize(
+      elementWithAttributes(
+        "d:multistatus",
+        { "xmlns:d": "DAV:", skipped: undefined },
+        element("d:response", element("d:href", "/a\"'")),
+        false,
+        undefined,
+        [element("d:empty"), raw("<d:raw/>")],
+      ),
+    );
+
+    await test.step("it should skip absent values and keep raw markup", () => {
+      assertEquals(
+        xml,
+        '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/a&quot;&apos;</d:href></d:response><d:empty/><d:raw/></d:multistatus>',
+      );
+    });
+  });
+});
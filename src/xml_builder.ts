@@ -0,0 +1,62 @@
+const RAW = Symbol("raw");
+
+/** Serialized markup which is inserted as is. */
+export type Markup = { readonly [RAW]: string };
+
+/** Strings and numbers are escaped, `undefined` and `false` are skipped. */
+export type XmlContent = string | number | Markup | undefined | false | XmlContent[];
+
+/** Wraps already serialized markup so that it isn't escaped again. */
+export function raw(xml: string): Markup {
+  return { [RAW]: xml };
+}
+
+/** Builds an element, or an empty-element tag if there is no content. */
+export function element(name: string, ...content: XmlContent[]): Markup {
+  return elementWithAttributes(name, {}, ...content);
+}
+
+export function elementWithAttributes(
+  name: string,
+  attributes: Record<string, string | undefined>,
+  ...content: XmlContent[]
+): Markup {
+  const attributeText = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`)
+    .join("");
+  const inner = serialize(content);
+  return raw(inner ? `<${name}${attributeText}>${inner}</${name}>` : `<${name}${attributeText}/>`);
+}
+
+/** Prepends the XML declaration. */
+export function xmlDocument(root: Markup): string {
+  return `<?xml version="1.0" encoding="utf-8"?>${serialize(root)}`;
+}
+
+export function serialize(content: XmlContent): string {
+  if (content === undefined || content === false) {
+    return "";
+  }
+  if (Array.isArray(content)) {
+    return content.map(serialize).join("");
+  }
+  if (typeof content === "object") {
+    return content[RAW];
+  }
+  return escapeXml(`${content}`);
+}
+
+/** Escapes text for use in element content or attribute values. */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+/**
+ * Percent-encodes each segment of a slash separated path for use in `DAV:href`. Only unreserved
+ * characters and `!'()*` stay literal, so sub-delimiters like `;` and `:` are encoded too.
+ */
+export function encodeHref(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
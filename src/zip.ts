@@ -0,0 +1,254 @@
+/** A file in a zip archive. */
+export type ZipEntry = {
+  /** Slash separated relative path. */
+  name: string;
+  content: Uint8Array;
+  mtime?: Date;
+};
+
+/** Thrown when an archive is malformed or uses features not supported here, like zip64. */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+const ENCRYPTED_FLAG = 1 << 0;
+const UTF8_FLAG = 1 << 11;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+/** Deflates the entries into a zip archive, one entry at a time. */
+export function createZip(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+): ReadableStream<Uint8Array> {
+  return ReadableStream.from(generateZip(entries));
+}
+
+async function* generateZip(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>) {
+  const centralHeaders = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const compressed = await compress(entry.content);
+    if (offset > MAX_UINT32 || entry.content.length > MAX_UINT32) {
+      throw new ZipError("The archive is too large");
+    }
+
+    // Fields shared by the local and the central header, from "version needed" to "extra length".
+    const fields = new DataView(new ArrayBuffer(26));
+    const [time, date] = toDosDateTime(entry.mtime ?? new Date());
+    fields.setUint16(0, 20, true);
+    fields.setUint16(2, UTF8_FLAG, true);
+    fields.setUint16(4, DEFLATED, true);
+    fields.setUint16(6, time, true);
+    fields.setUint16(8, date, true);
+    fields.setUint32(10, crc32(entry.content), true);
+    fields.setUint32(14, compressed.length, true);
+    fields.setUint32(18, entry.content.length, true);
+    fields.setUint16(22, name.length, true);
+
+    const local = new Uint8Array(30 + name.length);
+    new DataView(local.buffer).setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.set(new Uint8Array(fields.buffer), 4);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true);
+    central.set(new Uint8Array(fields.buffer), 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+    centralHeaders.push(central);
+
+    yield local;
+    yield compressed;
+    offset += local.length + compressed.length;
+  }
+
+  const centralSize = centralHeaders.reduce((sum, x) => sum + x.length, 0);
+  if (centralHeaders.length > MAX_UINT16 || offset + centralSize > MAX_UINT32) {
+    throw new ZipError("The archive is too large");
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_SIGNATURE, true);
+  end.setUint16(8, centralHeaders.length, true);
+  end.setUint16(10, centralHeaders.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  yield* centralHeaders;
+  yield new Uint8Array(end.buffer);
+}
+
+/**
+ * Extracts the files of a zip archive, skipping directories.
+ * @param maxSize the largest total size of the extracted files
+ * @throws {ZipError} if the archive is malformed, encrypted, too large when extracted, or a
+ * checksum doesn't match.
+ */
+export async function readZip(
+  data: Uint8Array,
+  { maxSize = Infinity }: { maxSize?: number } = {},
+): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const endOffset = findEnd(view);
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  const entries = [];
+  let totalSize = 0;
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > endOffset || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipError("Broken central directory");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & ENCRYPTED_FLAG) {
+      throw new ZipError(`${name} is encrypted`);
+    }
+    if (name.endsWith("/")) {
+      continue;
+    }
+    totalSize += size;
+    if (totalSize > maxSize) {
+      throw new ZipError(`The files are larger than ${maxSize} bytes when extracted`);
+    }
+
+    if (
+      localOffset + 30 > data.length ||
+      view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE
+    ) {
+      throw new ZipError(`Broken local header of ${name}`);
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > data.length) {
+      throw new ZipError(`${name} is truncated`);
+    }
+
+    const compressed = data.subarray(start, start + compressedSize);
+    const content = await decompress(compressed, method, size).catch((error) => {
+      throw error instanceof ZipError ? error : new ZipError(`${name} is corrupted`);
+    });
+    if (content.length !== size || crc32(content) !== crc) {
+      throw new ZipError(`${name} is corrupted`);
+    }
+
+    entries.push({ name, content, mtime: fromDosDateTime(time, date) });
+  }
+  return entries;
+}
+
+function findEnd(view: DataView) {
+  // The end record is followed by a comment of up to 64 KiB.
+  const last = view.byteLength - 22;
+  for (let offset = last; offset >= Math.max(0, last - MAX_UINT16); offset--) {
+    if (view.getUint32(offset, true) === END_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipError("Not a zip archive");
+}
+
+async function decompress(data: Uint8Array, method: number, size: number) {
+  if (method === STORED) {
+    return data;
+  }
+  if (method !== DEFLATED) {
+    throw new ZipError(`Unsupported compression method: ${method}`);
+  }
+
+  // Stop as soon as it exceeds the declared size, which `readZip` checks against its limit.
+  const chunks = [];
+  let length = 0;
+  const stream = ReadableStream.from([data as BufferSource]).pipeThrough(
+    new DecompressionStream("deflate-raw"),
+  );
+  for await (const chunk of stream) {
+    length += chunk.length;
+    if (length > size) {
+      throw new ZipError("Size mismatch");
+    }
+    chunks.push(chunk);
+  }
+  return concat(chunks, length);
+}
+
+async function compress(data: Uint8Array) {
+  const stream = ReadableStream.from([data as BufferSource]).pipeThrough(
+    new CompressionStream("deflate-raw"),
+  );
+  const chunks = await Array.fromAsync(stream);
+  return concat(chunks, chunks.reduce((sum, x) => sum + x.length, 0));
+}
+
+function concat(chunks: Uint8Array[], length: number) {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array) {
+  crcTable ??= Uint32Array.from({ length: 256 }, (_, index) => {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    return value;
+  });
+
+  let crc = MAX_UINT32;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ MAX_UINT32) >>> 0;
+}
+
+/** MS-DOS time has 2 second precision and starts from 1980, in local time. */
+function toDosDateTime(date: Date) {
+  if (date.getFullYear() < 1980) {
+    return [0, 1 << 5 | 1];
+  }
+  const time = date.getHours() << 11 | date.getMinutes() << 5 | date.getSeconds() >> 1;
+  const day = (date.getFullYear() - 1980) << 9 | (date.getMonth() + 1) << 5 | date.getDate();
+  return [time, day];
+}
+
+function fromDosDateTime(time: number, date: number) {
+  return new Date(
+    (date >> 9) + 1980,
+    (date >> 5 & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    time >> 5 & 0x3f,
+    (time & 0x1f) * 2,
+  );
+}
@@ -1,5 +1,6 @@
 import { parseArgs } from "jsr:@std/cli/parse-args";
 import { basename, dirname, join } from "jsr:@std/path";
+import { parseMeta } from "../src/userscript.ts";
 
 if (import.meta.main) {
   main();
@@ -67,8 +68,11 @@ async function getUnusedFiles(directory: string) {
 
 async function getOrphanMetaAndRemoved(directory: string, metaFile: string, jsFiles: string[]) {
   const metaPath = join(directory, metaFile);
-  const metaJson = await Deno.readTextFile(metaPath);
-  const meta = JSON.parse(metaJson);
+  const meta = parseMeta(await Deno.readTextFile(metaPath));
+  if (!meta) {
+    return [];
+  }
+
   const jsFile = `${meta.uuid}.user.js`;
 
   if (!jsFiles.includes(jsFile)) {
@@ -76,7 +80,7 @@ async function getOrphanMetaAndRemoved(directory: string, metaFile: string, jsFi
   }
 
   jsFiles.splice(jsFiles.indexOf(jsFile), 1);
-  if (meta.options?.removed) {
+  if (meta.options.removed) {
     const jsPath = join(dirname(metaPath), jsFile);
     return [metaPath, jsPath];
   }